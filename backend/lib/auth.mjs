@@ -0,0 +1,95 @@
+import { getApps, initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+
+/**
+ * Who is calling. The app sends the signed-in user's Firebase ID token as
+ * `Authorization: Bearer <token>`; a verifier turns the token into { uid, email }
+ * or throws. Which verifier is used is chosen with the AUTH_VERIFIER setting.
+ */
+
+// Checks the token's signature, expiry and project with the Firebase Admin SDK. Only the
+// project id is needed (FIREBASE_PROJECT_ID, or taken from GOOGLE_APPLICATION_CREDENTIALS).
+export function createFirebaseVerifier({ projectId } = {}) {
+	// Created on first use, so a missing project only fails the requests
+	let auth = null;
+
+	return {
+		name: 'firebase',
+
+		async verify(token) {
+			auth ??= getAuth(getApps()[0] ?? initializeApp(projectId ? { projectId } : undefined));
+			const decoded = await auth.verifyIdToken(token);
+			return { uid: decoded.uid, email: decoded.email ?? null };
+		}
+	};
+}
+
+// Development and test stand-in that does NOT check signatures. Takes a Firebase ID token
+// from the app (its user and expiry are read but not verified), or "local:<uid>" for curl.
+export function createLocalVerifier() {
+	return {
+		name: 'local',
+
+		async verify(token) {
+			const localUid = token.match(/^local:(.+)$/)?.[1];
+			if (localUid) {
+				return { uid: localUid, email: null };
+			}
+
+			const payload = token.split('.')[1];
+			if (!payload) {
+				throw new Error('Expected a Firebase ID token or local:<uid>');
+			}
+			const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+			if (!claims.sub) {
+				throw new Error('Token has no user');
+			}
+			if (claims.exp && claims.exp * 1000 < Date.now()) {
+				throw Object.assign(new Error('Token has expired'), { code: 'auth/id-token-expired' });
+			}
+			return { uid: claims.sub, email: claims.email ?? null };
+		}
+	};
+}
+
+const VERIFIERS = {
+	firebase: createFirebaseVerifier,
+	local: createLocalVerifier
+};
+
+export const VERIFIER_NAMES = Object.keys(VERIFIERS);
+
+// Verifier named by the AUTH_VERIFIER setting
+export function createVerifier({ name, projectId }) {
+	const factory = VERIFIERS[name.toLowerCase()];
+	if (!factory) {
+		throw new Error(`Unknown AUTH_VERIFIER: ${name}`);
+	}
+	return factory({ projectId });
+}
+
+const unauthorized = (res, code, error, details) => res
+	.status(401)
+	.set('WWW-Authenticate', 'Bearer')
+	.json({ error, code, ...(details && { details }) });
+
+// Rejects requests without a valid token with a 401 { error, code, details? }; `code` is
+// auth/missing-token, or the verifier's auth/* code (e.g. auth/id-token-expired) or
+// auth/invalid-token. Sets req.user to the caller. Runs after requestLogger, for req.log.
+export function requireAuth(verifier) {
+	return async (req, res, next) => {
+		const token = req.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+		if (!token) {
+			return unauthorized(res, 'auth/missing-token', 'Sign-in required');
+		}
+
+		try {
+			req.user = await verifier.verify(token);
+		} catch (error) {
+			req.log.info('Rejected sign-in token', { reason: error.message });
+			const code = typeof error.code === 'string' && error.code.startsWith('auth/') ? error.code : 'auth/invalid-token';
+			return unauthorized(res, code, 'Invalid or expired sign-in token', error.message);
+		}
+		next();
+	};
+}
@@ -0,0 +1,123 @@
+import { createLogger } from './logger.mjs';
+import { SCHEMAS, validate } from './schema.mjs';
+
+/**
+ * Category suggestion for an analyzed receipt. The app sends the categories the user can
+ * pick from (ids and names); the suggestion is always one of those ids, or null.
+ * Well-known Malaysian merchants and receipt words map to the app's built-in categories,
+ * and custom categories are matched by their own name.
+ */
+
+// The app's built-in categories, used when a request does not list any
+export const DEFAULT_CATEGORIES = [
+	{ id: 'food-dining', name: 'Food & Dining' },
+	{ id: 'transportation', name: 'Transportation' },
+	{ id: 'shopping', name: 'Shopping' },
+	{ id: 'entertainment', name: 'Entertainment' },
+	{ id: 'bills-utilities', name: 'Bills & Utilities' },
+	{ id: 'healthcare', name: 'Healthcare' },
+	{ id: 'groceries', name: 'Groceries' },
+	{ id: 'other', name: 'Other' }
+];
+
+// Whole-word keywords per built-in category; merchants first, then words printed on receipts
+const KEYWORDS = {
+	'food-dining': [
+		'restaurant', 'restoran', 'cafe', 'café', 'kopitiam', 'mamak', 'bistro', 'kitchen', 'bakery',
+		'nasi', 'mee', 'roti', 'kfc', 'mcdonald', "mcdonald's", 'starbucks', 'pizza', 'burger', 'sushi',
+		'tealive', 'zus coffee', 'secret recipe', 'oldtown', 'texas chicken', 'grabfood', 'foodpanda'
+	],
+	'transportation': [
+		'petronas', 'shell', 'petron', 'caltex', 'bhpetrol', 'petrol', 'fuel', 'ron95', 'ron97', 'diesel',
+		'toll', 'plus highways', 'parking', 'mrt', 'lrt', 'rapidkl', 'ktm', 'grabcar', 'grab ride', 'taxi',
+		'airasia', 'malaysia airlines', 'firefly'
+	],
+	'shopping': [
+		'lazada', 'shopee', 'zalora', 'uniqlo', 'h&m', 'zara', 'ikea', 'mr diy', 'daiso', 'popular bookstore',
+		'mph', 'harvey norman', 'senheng', 'sports direct', 'parkson', 'isetan'
+	],
+	'entertainment': [
+		'cinema', 'gsc', 'tgv', 'mbo', 'netflix', 'spotify', 'disney+', 'steam', 'playstation',
+		'karaoke', 'redbox', 'bowling', 'concert', 'genting'
+	],
+	'bills-utilities': [
+		'tnb', 'tenaga nasional', 'air selangor', 'syabas', 'indah water', 'unifi', 'telekom', 'maxis',
+		'celcom', 'digi', 'u mobile', 'astro', 'time fibre', 'insurance', 'takaful'
+	],
+	'healthcare': [
+		'clinic', 'klinik', 'hospital', 'pharmacy', 'farmasi', 'guardian', 'caring pharmacy', 'alpro',
+		'dental', 'pergigian', 'medical', 'optometrist'
+	],
+	'groceries': [
+		'tesco', "lotus's", 'aeon', 'giant', 'mydin', 'jaya grocer', 'village grocer', 'cold storage',
+		'econsave', '99 speedmart', 'speedmart', 'nsk', 'hero market', 'mercato', 'pasar', 'grocer', 'grocery'
+	]
+};
+
+// A keyword in the merchant name says more than one somewhere on the receipt
+const MERCHANT_CONFIDENCE = 0.8;
+const TEXT_CONFIDENCE = 0.5;
+const CUSTOM_NAME_CONFIDENCE = 0.7;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const containsWord = (text, word) =>
+	new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+
+// The `categories` form field: a JSON array of CategoryOption
+const CATEGORIES_FIELD = { type: 'array', items: SCHEMAS.CategoryOption };
+
+// Categories sent by the app as a JSON form field, or the built-in ones
+export function parseCategories(value, log = createLogger()) {
+	if (!value) return DEFAULT_CATEGORIES;
+	try {
+		const categories = JSON.parse(value);
+		const problems = validate(CATEGORIES_FIELD, categories, 'categories');
+		if (problems.length > 0) {
+			log.warn('Ignoring invalid categories field', { problems });
+			return DEFAULT_CATEGORIES;
+		}
+		return categories.length > 0 ? categories : DEFAULT_CATEGORIES;
+	} catch (error) {
+		log.warn('Ignoring invalid categories field', { error: error.message });
+		return DEFAULT_CATEGORIES;
+	}
+}
+
+// { id, confidence, reason } for the receipt, or null when nothing points to a category
+export function suggestCategory({ analysis, text, categories = DEFAULT_CATEGORIES }) {
+	const merchant = analysis?.beneficiaryName || '';
+	const receiptText = String(text || '');
+
+	// A custom category whose name appears in the merchant name, e.g. "Pets" for "Pet World"
+	for (const category of categories) {
+		if (KEYWORDS[category.id] || category.id === 'other') continue;
+		const words = category.name.split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 3);
+		const word = words.find(candidate =>
+			containsWord(merchant, candidate) || containsWord(merchant, candidate.replace(/s$/i, '')));
+		if (word) {
+			return {
+				id: category.id,
+				confidence: CUSTOM_NAME_CONFIDENCE,
+				reason: `The merchant name matches your "${category.name}" category`
+			};
+		}
+	}
+
+	const offered = categories.filter(category => KEYWORDS[category.id]);
+	for (const [source, haystack, confidence] of [['merchant', merchant, MERCHANT_CONFIDENCE], ['receipt', receiptText, TEXT_CONFIDENCE]]) {
+		for (const category of offered) {
+			const keyword = KEYWORDS[category.id].find(candidate => containsWord(haystack, candidate));
+			if (keyword) {
+				return {
+					id: category.id,
+					confidence,
+					reason: source === 'merchant'
+						? `"${merchant}" looks like ${category.name}`
+						: `The receipt mentions "${keyword}"`
+				};
+			}
+		}
+	}
+
+	return null;
+}
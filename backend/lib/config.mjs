@@ -0,0 +1,173 @@
+import fs from 'fs';
+import { VERIFIER_NAMES } from './auth.mjs';
+import { EXTRACTOR_NAMES } from './extractors/index.mjs';
+import { LIMIT_STORE_NAMES } from './limits.mjs';
+import { LOG_LEVELS } from './logger.mjs';
+import { STORAGE_ADAPTERS } from './storage.mjs';
+
+/**
+ * Server settings, read once at startup. Each setting comes from its environment variable,
+ * else from the JSON config file (CONFIG_FILE, default config.json; optional), keyed by the
+ * same variable names, else its default. Every value is checked, and startup stops with one
+ * error listing everything that is wrong.
+ */
+
+const DEFAULT_CONFIG_FILE = 'config.json';
+
+// camelCase name → { env, type, default, ... }. Types: integer (min, max), string (required),
+// list (comma-separated, or an array in the config file), boolean; strings and list items can be
+// limited to `values`. Secrets are never logged.
+const SETTINGS = {
+	port: { env: 'PORT', type: 'integer', min: 1, max: 65535, default: 3000 },
+	uploadDir: { env: 'UPLOAD_DIR', type: 'string', required: true, default: 'uploads/' },
+	maxUploadMB: { env: 'MAX_UPLOAD_MB', type: 'integer', min: 1, max: 100, default: 10 },
+	maxPages: { env: 'MAX_PAGES', type: 'integer', min: 1, max: 50, default: 10 },
+	maxBatchSize: { env: 'MAX_BATCH_SIZE', type: 'integer', min: 1, max: 50, default: 10 },
+	extractionTimeoutMs: { env: 'EXTRACTION_TIMEOUT_MS', type: 'integer', min: 1000, default: 30000 },
+	jobExtractionTimeoutMs: { env: 'JOB_EXTRACTION_TIMEOUT_MS', type: 'integer', min: 1000, default: 5 * 60 * 1000 },
+
+	// Known bank and e-wallet layouts first, then the LLM, then the offline patterns
+	extractors: { env: 'EXTRACTORS', type: 'list', values: EXTRACTOR_NAMES, default: ['templates', 'groq', 'regex'] },
+	groqApiKey: { env: 'GROQ_API_KEY', type: 'string', secret: true, default: '' },
+	groqModel: { env: 'GROQ_MODEL', type: 'string', required: true, default: 'llama3-8b-8192' },
+
+	receiptStorage: { env: 'RECEIPT_STORAGE', type: 'string', values: STORAGE_ADAPTERS, default: 'local' },
+	receiptStorageDir: { env: 'RECEIPT_STORAGE_DIR', type: 'string', required: true, default: 'receipts/' },
+	// Links that open a receipt without a token; a random secret is made at startup when unset
+	receiptLinkSecret: { env: 'RECEIPT_LINK_SECRET', type: 'string', secret: true, default: '' },
+	receiptLinkTtlSeconds: { env: 'RECEIPT_LINK_TTL_SECONDS', type: 'integer', min: 10, max: 3600, default: 300 },
+
+	authVerifier: { env: 'AUTH_VERIFIER', type: 'string', values: VERIFIER_NAMES, default: 'firebase' },
+	firebaseProjectId: { env: 'FIREBASE_PROJECT_ID', type: 'string', default: '' },
+	corsOrigins: { env: 'CORS_ORIGINS', type: 'list', default: [] },
+	// Reverse proxies in front of the server, whose X-Forwarded-For entries give the client address
+	trustProxy: { env: 'TRUST_PROXY', type: 'integer', min: 0, default: 0 },
+
+	rateLimitIpPerMinute: { env: 'RATE_LIMIT_IP_PER_MINUTE', type: 'integer', min: 0, default: 120 },
+	rateLimitUserPerMinute: { env: 'RATE_LIMIT_USER_PER_MINUTE', type: 'integer', min: 0, default: 10 },
+	dailyDocumentQuota: { env: 'DAILY_DOCUMENT_QUOTA', type: 'integer', min: 0, default: 100 },
+	limitStore: { env: 'LIMIT_STORE', type: 'string', values: LIMIT_STORE_NAMES, default: 'memory' },
+
+	logLevel: { env: 'LOG_LEVEL', type: 'string', values: LOG_LEVELS, default: 'info' },
+	// Receipt contents and emails are left out of the logs unless this is turned off
+	logRedact: { env: 'LOG_REDACT', type: 'boolean', default: true }
+};
+
+export class ConfigError extends Error {
+	constructor(problems) {
+		super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+		this.name = 'ConfigError';
+		this.problems = problems;
+	}
+}
+
+// Value from the environment (a string) or the config file (any JSON), or an error message
+function parseSetting(setting, raw) {
+	switch (setting.type) {
+		case 'integer': {
+			const value = typeof raw === 'number' ? raw : Number(String(raw).trim());
+			if (String(raw).trim() === '' || !Number.isInteger(value)) {
+				return { error: `${setting.env} must be a whole number, got "${raw}"` };
+			}
+			if ((setting.min !== undefined && value < setting.min) || (setting.max !== undefined && value > setting.max)) {
+				const range = setting.max === undefined ? `at least ${setting.min}` : `between ${setting.min} and ${setting.max}`;
+				return { error: `${setting.env} must be ${range}, got ${value}` };
+			}
+			return { value };
+		}
+		case 'boolean': {
+			if (typeof raw === 'boolean') {
+				return { value: raw };
+			}
+			const value = String(raw).trim().toLowerCase();
+			if (['true', '1', 'yes', 'on'].includes(value)) return { value: true };
+			if (['false', '0', 'no', 'off'].includes(value)) return { value: false };
+			return { error: `${setting.env} must be true or false, got "${raw}"` };
+		}
+		case 'list': {
+			const items = (Array.isArray(raw) ? raw.map(String) : String(raw).split(','))
+				.map(item => item.trim())
+				.filter(Boolean);
+			const unknown = setting.values ? items.filter(item => !setting.values.includes(item.toLowerCase())) : [];
+			if (unknown.length > 0) {
+				return { error: `${setting.env} has unknown ${unknown.join(', ')}; expected some of ${setting.values.join(', ')}` };
+			}
+			return { value: items.map(item => setting.values ? item.toLowerCase() : item) };
+		}
+		default: {
+			if (typeof raw !== 'string') {
+				return { error: `${setting.env} must be a string` };
+			}
+			const value = raw.trim();
+			if (setting.required && !value) {
+				return { error: `${setting.env} must not be empty` };
+			}
+			if (setting.values) {
+				return setting.values.includes(value.toLowerCase())
+					? { value: value.toLowerCase() }
+					: { error: `${setting.env} must be one of ${setting.values.join(', ')}, got "${value}"` };
+			}
+			return { value };
+		}
+	}
+}
+
+function readConfigFile(env, problems) {
+	const file = env.CONFIG_FILE || DEFAULT_CONFIG_FILE;
+	if (!fs.existsSync(file)) {
+		if (env.CONFIG_FILE) problems.push(`CONFIG_FILE ${file} does not exist`);
+		return { file: null, values: {} };
+	}
+
+	try {
+		const values = JSON.parse(fs.readFileSync(file, 'utf8'));
+		if (!values || typeof values !== 'object' || Array.isArray(values)) {
+			problems.push(`${file} must contain a JSON object`);
+			return { file, values: {} };
+		}
+		const known = new Set(Object.values(SETTINGS).map(setting => setting.env));
+		for (const key of Object.keys(values).filter(key => !known.has(key))) {
+			problems.push(`${file} has an unknown setting ${key}`);
+		}
+		return { file, values };
+	} catch (error) {
+		problems.push(`${file} is not valid JSON: ${error.message}`);
+		return { file, values: {} };
+	}
+}
+
+// Settings by camelCase name, plus `configFile` (the file used, or null). Throws a ConfigError.
+export function loadConfig(env = process.env) {
+	const problems = [];
+	const { file, values } = readConfigFile(env, problems);
+
+	const config = { configFile: file };
+	for (const [name, setting] of Object.entries(SETTINGS)) {
+		const raw = env[setting.env] ?? values[setting.env];
+		if (raw === undefined) {
+			config[name] = setting.default;
+			continue;
+		}
+		const { value, error } = parseSetting(setting, raw);
+		if (error) {
+			problems.push(error);
+		} else {
+			config[name] = value;
+		}
+	}
+
+	if (config.extractors?.length === 0) {
+		problems.push('EXTRACTORS must name at least one extractor');
+	}
+
+	if (problems.length > 0) {
+		throw new ConfigError(problems);
+	}
+	return Object.freeze(config);
+}
+
+// The configuration as it is safe to log: secrets show only whether they are set
+export function redactConfig(config) {
+	return Object.fromEntries(Object.entries(config).map(([name, value]) =>
+		[name, SETTINGS[name]?.secret ? (value ? '[redacted]' : '(not set)') : value]));
+}
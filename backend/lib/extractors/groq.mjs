@@ -0,0 +1,56 @@
+import Groq from 'groq-sdk';
+
+const buildPrompt = (text) => `
+You are a financial document analyzer. Extract the following information from this text and return it as a JSON object with these exact keys:
+
+{
+  "referenceId": "reference number or transaction ID",
+  "date": "date in YYYY-MM-DD format if possible",
+  "time": "time if available",
+  "beneficiaryName": "name of the recipient/beneficiary",
+  "amount": "monetary amount with currency if available"
+}
+
+If any field is not found, use null for that field. Only return the JSON object, no other text.
+
+Text to analyze:
+${text}
+`;
+
+// Groq-hosted LLM. Throws when the key is missing, the request fails or the
+// reply is not JSON, so the next extractor in the chain can take over.
+export function createGroqExtractor({ apiKey, model } = {}) {
+	// Created on first use: the client refuses to construct without a key
+	let groq = null;
+
+	return {
+		name: 'groq',
+
+		async extract(text) {
+			if (!apiKey) {
+				throw new Error('GROQ_API_KEY is not set');
+			}
+			groq ??= new Groq({ apiKey });
+
+			const completion = await groq.chat.completions.create({
+				messages: [
+					{
+						role: "user",
+						content: buildPrompt(text)
+					}
+				],
+				model,
+				temperature: 0.1,
+				max_tokens: 500,
+			});
+
+			const response = completion.choices[0]?.message?.content;
+			try {
+				return JSON.parse(response);
+			} catch (parseError) {
+				// Not the reply itself, which quotes the receipt
+				throw new Error(`Groq response is not JSON (${response?.length ?? 0} characters)`);
+			}
+		}
+	};
+}
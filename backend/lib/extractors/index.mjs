@@ -0,0 +1,121 @@
+import { createLogger, startTimer } from '../logger.mjs';
+import { ANALYSIS_FIELDS, coerce, SCHEMAS } from '../schema.mjs';
+import { createGroqExtractor } from './groq.mjs';
+import { createMockExtractor } from './mock.mjs';
+import { createRegexExtractor } from './regex.mjs';
+import { findSourceLine, toSnippet } from './sources.mjs';
+import { createTemplateExtractor } from './templates.mjs';
+
+/**
+ * Receipt field extraction from OCR text. Every extractor has the same shape:
+ *   { name, extract(text, log) → { referenceId, date, time, beneficiaryName, amount } }
+ * Fields that are not found are null. An extractor throws when it cannot run at all
+ * (no API key, service down), and the chain moves on to the next one. The result may
+ * also name the `template` that produced it, and give per field a `confidence` (0 to 1)
+ * and the `sources` line the value was read from.
+ *
+ * Results, the LLM's above all, are checked against the ReceiptAnalysis schema (lib/schema.mjs):
+ * values are coerced where that is safe (numbers to text, dates read out of longer text) and
+ * dropped otherwise, and a result that is not an object counts as a failed extractor.
+ */
+
+const EXTRACTOR_FACTORIES = {
+	templates: createTemplateExtractor,
+	groq: createGroqExtractor,
+	regex: createRegexExtractor,
+	mock: createMockExtractor
+};
+
+export const EXTRACTOR_NAMES = Object.keys(EXTRACTOR_FACTORIES);
+
+// Confidence of a value from an extractor that gives none, by whether the OCR text backs it up
+const GROUNDED_CONFIDENCE = 0.8;
+const UNGROUNDED_CONFIDENCE = 0.35;
+
+export const emptyAnalysis = () => ({
+	...Object.fromEntries(ANALYSIS_FIELDS.map(field => [field, null])),
+	fields: {}
+});
+
+const clampConfidence = (value) => Math.round(Math.min(1, Math.max(0, value)) * 100) / 100;
+
+// Only the known fields, coerced to the schema; values that do not fit are left out, with why in
+// `rejected` (e.g. "date: must match format date"). `fields` holds { confidence, source } for every field found.
+function normalizeAnalysis(result, text) {
+	if (result !== null && (typeof result !== 'object' || Array.isArray(result))) {
+		throw new Error(`Extractor returned ${Array.isArray(result) ? 'an array' : typeof result} instead of an object`);
+	}
+
+	const analysis = emptyAnalysis();
+	const rejected = [];
+	const lines = String(text || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+	for (const field of ANALYSIS_FIELDS) {
+		const { value, problems } = coerce(SCHEMAS.ReceiptAnalysis.properties[field], result?.[field]);
+		rejected.push(...problems.map(problem => problem.replace(/^value:/, `${field}:`)));
+		if (value === null) {
+			continue;
+		}
+		analysis[field] = value;
+
+		const source = result.sources?.[field] ?? findSourceLine(field, value, lines);
+		const reported = result.confidence?.[field];
+		const confidence = Number.isFinite(reported) ? reported : (source ? GROUNDED_CONFIDENCE : UNGROUNDED_CONFIDENCE);
+		analysis.fields[field] = {
+			confidence: clampConfidence(confidence),
+			source: source ? toSnippet(source) : null
+		};
+	}
+	return { analysis, rejected };
+}
+
+const hasAnyField = (analysis) => ANALYSIS_FIELDS.some(field => analysis[field] !== null);
+
+// Tries each extractor in order until one finds something. Resolves to the analysis and
+// the name of the extractor that produced it, e.g. "groq" or "templates:maybank2u"; all fields are null (and the extractor
+// null) when none did, so the user can still fill the receipt in by hand. Each attempt is
+// logged with how long it took, which for groq is the LLM call.
+export function createExtractorChain(extractors) {
+	return {
+		names: extractors.map(extractor => extractor.name),
+
+		async extract(text, log = createLogger()) {
+			for (const extractor of extractors) {
+				const elapsed = startTimer();
+				try {
+					const result = await extractor.extract(text, log);
+					const { analysis, rejected } = normalizeAnalysis(result, text);
+					if (rejected.length > 0) {
+						log.warn('Extractor returned values that do not fit the schema', { extractor: extractor.name, rejected });
+					}
+					if (hasAnyField(analysis)) {
+						const name = result.template ? `${extractor.name}:${result.template}` : extractor.name;
+						log.info('Extractor found the receipt fields', { extractor: name, durationMs: elapsed() });
+						return { analysis, extractor: name };
+					}
+					log.info('Extractor found nothing, trying the next one', { extractor: extractor.name, durationMs: elapsed() });
+				} catch (error) {
+					log.warn('Extractor failed', { extractor: extractor.name, durationMs: elapsed(), error: error.message });
+				}
+			}
+			return { analysis: emptyAnalysis(), extractor: null };
+		}
+	};
+}
+
+// Chain of the named extractors, e.g. ['groq', 'regex'] or ['mock'] (the EXTRACTORS setting).
+// `options` go to the extractor of the same name, e.g. { groq: { apiKey, model } }.
+export function createExtractor(names, options = {}) {
+	const extractors = names.map(name => name.toLowerCase()).map(name => {
+		const factory = EXTRACTOR_FACTORIES[name];
+		if (!factory) {
+			throw new Error(`Unknown extractor in EXTRACTORS: ${name}`);
+		}
+		return factory(options[name]);
+	});
+	if (extractors.length === 0) {
+		throw new Error('EXTRACTORS must name at least one extractor');
+	}
+
+	return createExtractorChain(extractors);
+}
@@ -0,0 +1,28 @@
+// Fixed result for every receipt, for running the app and the upload pipeline
+// without OCR quality or an LLM getting in the way
+export const MOCK_ANALYSIS = {
+	referenceId: 'MOCK-000001',
+	date: '2024-01-01',
+	time: '12:00:00',
+	beneficiaryName: 'Mock Merchant Sdn Bhd',
+	amount: 'RM 10.00'
+};
+
+// One field is reported as a guess, so the app's low-confidence highlighting can be checked offline
+const MOCK_CONFIDENCE = {
+	referenceId: 0.95,
+	date: 0.95,
+	time: 0.95,
+	beneficiaryName: 0.4,
+	amount: 0.95
+};
+
+export function createMockExtractor() {
+	return {
+		name: 'mock',
+
+		async extract() {
+			return { ...MOCK_ANALYSIS, confidence: { ...MOCK_CONFIDENCE } };
+		}
+	};
+}
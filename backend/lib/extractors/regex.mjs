@@ -0,0 +1,177 @@
+// Deterministic extraction with patterns for common receipt layouts: labelled fields
+// first ("Reference No:", "Total"), then values found anywhere in the text. Needs no
+// network or key, so it is the last resort of the chain and runs the same every time.
+
+// Three-letter English and Malay month names
+const MONTHS = {
+	jan: 1, feb: 2, mar: 3, mac: 3, apr: 4, may: 5, mei: 5, jun: 6, jul: 7,
+	aug: 8, ogo: 8, sep: 9, oct: 10, okt: 10, nov: 11, dec: 12, dis: 12
+};
+
+const CURRENCY = String.raw`(RM|MYR|SGD|S\$|USD|US\$|IDR|Rp|THB|EUR|GBP|\$|€|£|฿)`;
+const NUMBER = String.raw`(\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?)`;
+// Not preceded by a letter, so "FORM 12" is not RM 12
+const AMOUNT_PATTERN = new RegExp(`(?<![A-Za-z])${CURRENCY}\\s?${NUMBER}(?![\\d.])`, 'gi');
+const HAS_AMOUNT = new RegExp(AMOUNT_PATTERN.source, 'i');
+const TOTAL_LABEL = /\b(grand total|total amount|amount paid|total|amount|jumlah)\b/i;
+
+const REFERENCE_PATTERN = /\b(?:reference|ref\.?|transaction|txn|trans\.?|receipt|invoice|rujukan)\s*(?:no\.?|number|id|#)?\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})/gi;
+// "Recipient's Name: JOHN DOE"; the name starts after the separator (or the label ends the line)
+const BENEFICIARY_PATTERN = /\b(?:beneficiary|recipient|merchant|paid to|pay to|transfer(?:red)? to|penerima)(?:['’]s)?(?:\s+name)?\s*(?:[:-]\s*|\s+|$)(.*)$/i;
+const TIME_PATTERN = /\b([01]?\d|2[0-3]):([0-5]\d)(?::([0-5]\d))?(?:\s*([AaPp][Mm]))?\b/;
+
+const pad = (value) => String(value).padStart(2, '0');
+
+// Null for dates that do not exist, such as 31/02/2024; Date.UTC would roll them over
+function toISODate(year, month, day) {
+	if (year < 100) year += 2000;
+	const date = new Date(Date.UTC(year, month - 1, day));
+	if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+	return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+const monthNumber = (name) => MONTHS[name.slice(0, 3).toLowerCase()] ?? 0;
+
+// Numeric dates are read day first, as printed on Malaysian receipts
+export function findDate(text) {
+	const patterns = [
+		[/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, (m) => toISODate(+m[1], +m[2], +m[3])],
+		[/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/, (m) => toISODate(+m[3], +m[2], +m[1])],
+		[/\b(\d{1,2})[\s-]+([A-Za-z]{3,9})\.?,?[\s-]+(\d{4})\b/, (m) => toISODate(+m[3], monthNumber(m[2]), +m[1])],
+		[/\b([A-Za-z]{3,9})\.?\s+(\d{1,2}),?\s+(\d{4})\b/, (m) => toISODate(+m[3], monthNumber(m[1]), +m[2])]
+	];
+
+	for (const [pattern, toDate] of patterns) {
+		const match = text.match(pattern);
+		const date = match && toDate(match);
+		if (date) return date;
+	}
+	return null;
+}
+
+export function findTime(text) {
+	return text.match(TIME_PATTERN)?.[0].trim() ?? null;
+}
+
+const parseAmount = (value) => Number(value.replace(/,/g, ''));
+
+// First amount with a currency in the text, e.g. "RM 1,250.50"
+export function findCurrencyAmount(text) {
+	const match = text.match(HAS_AMOUNT);
+	return match ? `${match[1]} ${match[2]}` : null;
+}
+
+// How sure each way of finding a value is, from 0 to 1. A labelled value is rarely wrong;
+// the largest amount or the first line are educated guesses.
+const CONFIDENCE = {
+	labelled: 0.75,
+	total: 0.8,
+	pattern: 0.7,
+	largestAmount: 0.45,
+	heading: 0.35
+};
+
+// Finders return { value, source, confidence }, or null when nothing matches
+
+// The amount on a "Total" line (or the line after it), else the largest amount with a currency
+function findAmount(lines) {
+	for (let i = 0; i < lines.length; i++) {
+		if (!TOTAL_LABEL.test(lines[i]) || /sub\s*-?\s*total/i.test(lines[i])) continue;
+
+		for (const line of [lines[i], lines[i + 1] || '']) {
+			const match = [...line.matchAll(AMOUNT_PATTERN)].pop();
+			if (match) {
+				const source = line === lines[i] ? line : `${lines[i]} ${line}`;
+				return { value: `${match[1]} ${match[2]}`, source, confidence: CONFIDENCE.total };
+			}
+		}
+	}
+
+	const amounts = lines.flatMap(line => [...line.matchAll(AMOUNT_PATTERN)].map(match => ({ match, line })));
+	if (amounts.length === 0) return null;
+	const largest = amounts.reduce((best, candidate) =>
+		parseAmount(candidate.match[2]) > parseAmount(best.match[2]) ? candidate : best);
+	return {
+		value: `${largest.match[1]} ${largest.match[2]}`,
+		source: largest.line,
+		confidence: CONFIDENCE.largestAmount
+	};
+}
+
+// Reference numbers contain at least one digit, which keeps words like "Reference: Payment" out
+function findReferenceId(lines) {
+	for (const line of lines) {
+		for (const match of line.matchAll(REFERENCE_PATTERN)) {
+			if (/\d/.test(match[1])) {
+				return { value: match[1], source: line, confidence: CONFIDENCE.labelled };
+			}
+		}
+	}
+	return null;
+}
+
+// First line holding a value the pattern function recognizes
+function findInLines(lines, find) {
+	for (const line of lines) {
+		const value = find(line);
+		if (value) return { value, source: line, confidence: CONFIDENCE.pattern };
+	}
+	return null;
+}
+
+// A labelled recipient, else the first line that reads like a name (usually the shop's heading)
+function findBeneficiary(lines) {
+	for (let i = 0; i < lines.length; i++) {
+		const match = lines[i].match(BENEFICIARY_PATTERN);
+		if (!match) continue;
+		const onNextLine = !match[1].trim();
+		const name = onNextLine ? (lines[i + 1] || '').trim() : match[1].trim();
+		if (name) {
+			return {
+				value: name.slice(0, 80),
+				source: onNextLine ? `${lines[i]} ${name}` : lines[i],
+				confidence: CONFIDENCE.labelled
+			};
+		}
+	}
+
+	const heading = lines.find(line =>
+		(line.match(/\p{L}/gu) || []).length >= 3 &&
+		!/receipt|invoice|resit|successful|berjaya|transaction|payment|date|time|total/i.test(line) &&
+		!HAS_AMOUNT.test(line)
+	);
+	return heading ? { value: heading.trim().slice(0, 80), source: heading, confidence: CONFIDENCE.heading } : null;
+}
+
+// Values plus, per field found, how sure the match is and the line it came from
+export function extractWithPatterns(text) {
+	const lines = String(text || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+	const found = {
+		referenceId: findReferenceId(lines),
+		date: findInLines(lines, findDate),
+		time: findInLines(lines, findTime),
+		beneficiaryName: findBeneficiary(lines),
+		amount: findAmount(lines)
+	};
+
+	const result = { confidence: {}, sources: {} };
+	for (const [field, match] of Object.entries(found)) {
+		result[field] = match?.value ?? null;
+		if (match) {
+			result.confidence[field] = match.confidence;
+			result.sources[field] = match.source;
+		}
+	}
+	return result;
+}
+
+export function createRegexExtractor() {
+	return {
+		name: 'regex',
+
+		async extract(text) {
+			return extractWithPatterns(text);
+		}
+	};
+}
@@ -0,0 +1,42 @@
+import { findDate } from './regex.mjs';
+
+// Longest source snippet returned to the app
+const MAX_SNIPPET_LENGTH = 120;
+
+export const toSnippet = (text) => {
+	const snippet = String(text).replace(/\s+/g, ' ').trim();
+	return snippet.length > MAX_SNIPPET_LENGTH ? `${snippet.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : snippet;
+};
+
+const normalize = (text) => String(text).toLowerCase().replace(/\s+/g, ' ').trim();
+const digitsOf = (text) => String(text).replace(/[^\d.]/g, '').replace(/^\.+|\.+$/g, '');
+
+const TIME_PATTERN = /(\d{1,2}):(\d{2})(?::\d{2})?(?:\s*([AaPp])[Mm])?/g;
+
+// "8:15 PM" and "20:15:00" are both 20:15
+const toMinutes = (match) => {
+	const hour = Number(match[1]) % 12 + (match[3] && match[3].toLowerCase() === 'p' ? 12 : 0);
+	return (match[3] ? hour : Number(match[1])) * 60 + Number(match[2]);
+};
+const findTimes = (text) => [...String(text).matchAll(TIME_PATTERN)].map(toMinutes);
+
+// The OCR line a value was most likely read from, for values from extractors that do not
+// say where they found them (the LLM reformats dates and amounts, so those are compared
+// by meaning rather than as text). Null when the text does not support the value.
+export function findSourceLine(field, value, lines) {
+	switch (field) {
+		case 'amount': {
+			const amount = digitsOf(value);
+			if (!amount) return null;
+			return lines.find(line => line.replace(/,/g, '').match(/\d+(?:\.\d+)?/g)?.some(number => Number(number) === Number(amount))) ?? null;
+		}
+		case 'date':
+			return lines.find(line => findDate(line) === value) ?? null;
+		case 'time': {
+			const [time] = findTimes(value);
+			return time === undefined ? null : lines.find(line => findTimes(line).includes(time)) ?? null;
+		}
+		default:
+			return lines.find(line => normalize(line).includes(normalize(value))) ?? null;
+	}
+}
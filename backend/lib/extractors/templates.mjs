@@ -0,0 +1,181 @@
+import { findCurrencyAmount, findDate, findTime } from './regex.mjs';
+
+/**
+ * Receipt layouts we see most often, recognized from the OCR text and read field by field
+ * from their labels. Fast and deterministic; any other layout finds nothing here and the
+ * chain moves on to the LLM.
+ *
+ * A template lists the phrases that identify the layout and, per field, the labels the
+ * value is printed after (on the same line or the next one). Amounts without a currency
+ * are in ringgit, which is all these apps pay in.
+ */
+
+const TEMPLATES = [
+	{
+		id: 'tng',
+		name: "Touch 'n Go eWallet",
+		detect: /touch\s*['’]?\s*n\s*['’]?\s*go|\btng\s*e-?wallet\b/i,
+		labels: {
+			referenceId: ['transaction no', 'transaction id', 'wallet reference', 'reference no', 'reference'],
+			date: ['transaction date/time', 'date/time', 'date & time', 'transaction date', 'date'],
+			time: ['time'],
+			beneficiaryName: ['merchant name', 'merchant', 'transfer to', 'paid to', 'recipient'],
+			amount: ['total amount', 'amount']
+		}
+	},
+	{
+		id: 'grabpay',
+		name: 'GrabPay',
+		detect: /\bgrab\s*pay\b/i,
+		labels: {
+			referenceId: ['transaction id', 'booking id', 'booking code', 'reference no'],
+			date: ['transaction date', 'date & time', 'date'],
+			time: ['time'],
+			beneficiaryName: ['paid to', 'merchant name', 'merchant', 'transfer to'],
+			amount: ['total paid', 'total', 'amount paid', 'amount']
+		}
+	},
+	{
+		id: 'maybank2u',
+		name: 'Maybank2u',
+		detect: /maybank\s*2\s*u|\bm2u\b/i,
+		labels: {
+			referenceId: ['reference number', 'reference no', 'ref no', 'm2u reference'],
+			date: ['transaction date', 'date & time', 'date'],
+			time: ['transaction time', 'time'],
+			beneficiaryName: ['beneficiary name', 'recipient name', 'to account name', 'merchant name', 'beneficiary', 'recipient'],
+			amount: ['total amount', 'transfer amount', 'amount']
+		}
+	},
+	{
+		id: 'cimb',
+		name: 'CIMB Clicks',
+		detect: /cimb\s*clicks|\bcimb\s*octo\b/i,
+		labels: {
+			referenceId: ['reference no', 'reference number', 'transaction reference', 'ref no'],
+			date: ['transaction date & time', 'transaction date', 'date & time', 'date'],
+			time: ['transaction time', 'time'],
+			beneficiaryName: ["recipient's name", 'recipient name', 'beneficiary name', 'merchant name', 'pay to', 'recipient'],
+			amount: ['amount (rm)', 'total amount', 'amount']
+		}
+	},
+	// Last: DuitNow QR payments also show up inside the bank and wallet receipts above
+	{
+		id: 'duitnow',
+		name: 'DuitNow QR',
+		detect: /duit\s*now/i,
+		labels: {
+			referenceId: ['duitnow reference no', 'duitnow ref no', 'reference id', 'reference no', 'transaction id'],
+			date: ['date & time', 'transaction date', 'date'],
+			time: ['time'],
+			beneficiaryName: ['merchant name', 'recipient name', 'paid to', 'merchant', 'recipient'],
+			amount: ['amount (rm)', 'total amount', 'amount']
+		}
+	}
+];
+
+// Values read from their label in a recognized layout
+const TEMPLATE_CONFIDENCE = 0.95;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Compiled once: "Label (unit): value", with the unit and the separator optional
+const withPatterns = (template) => ({
+	...template,
+	patterns: Object.fromEntries(Object.entries(template.labels).map(([field, labels]) => [
+		field,
+		[...labels]
+			.sort((a, b) => b.length - a.length)
+			.map(label => new RegExp(`^${escapeRegExp(label)}(?![\\p{L}])\\s*(?:\\(([^)]*)\\))?\\s*[:：-]?\\s*(.*)$`, 'iu'))
+	]))
+});
+
+const COMPILED_TEMPLATES = TEMPLATES.map(withPatterns);
+
+// Value printed after one of a field's labels, the unit in brackets after the label, if any,
+// and the text it was read from
+function findLabelled(lines, patterns) {
+	for (const pattern of patterns) {
+		for (let i = 0; i < lines.length; i++) {
+			const match = lines[i].match(pattern);
+			if (!match) continue;
+			const onNextLine = !match[2].trim();
+			const value = onNextLine ? (lines[i + 1] || '').trim() : match[2].trim();
+			if (value) {
+				return { value, unit: match[1] || '', source: onNextLine ? `${lines[i]} ${value}` : lines[i] };
+			}
+		}
+	}
+	return null;
+}
+
+const findReference = (value) =>
+	value.split(/\s+/).find(token => /^[A-Z0-9][A-Z0-9-]{3,}$/i.test(token) && /\d/.test(token)) ?? null;
+
+function findTemplateAmount(labelled) {
+	if (!labelled) return null;
+	const withCurrency = findCurrencyAmount(labelled.value);
+	if (withCurrency) return withCurrency;
+
+	const number = labelled.value.match(/\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?|\d+(?:\.\d{1,2})?/)?.[0];
+	if (!number) return null;
+	return `${/^[A-Z]{3}$/i.test(labelled.unit.trim()) ? labelled.unit.trim().toUpperCase() : 'RM'} ${number}`;
+}
+
+// The template the text was printed from, or null for an unknown layout
+export function matchTemplate(text) {
+	return COMPILED_TEMPLATES.find(template => template.detect.test(text)) ?? null;
+}
+
+export function extractWithTemplate(template, text) {
+	const lines = String(text || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+	const get = (field) => template.patterns[field] ? findLabelled(lines, template.patterns[field]) : null;
+
+	const reference = get('referenceId');
+	const date = get('date');
+	const time = get('time');
+	const beneficiary = get('beneficiaryName');
+	const amount = get('amount');
+	// Usually printed with the date
+	const timeSource = date && findTime(date.value) ? date : time;
+
+	const found = {
+		referenceId: [reference, reference && findReference(reference.value)],
+		date: [date, date && findDate(date.value)],
+		time: [timeSource, timeSource && findTime(timeSource.value)],
+		beneficiaryName: [beneficiary, beneficiary && beneficiary.value.slice(0, 80)],
+		amount: [amount, findTemplateAmount(amount)]
+	};
+
+	const result = { confidence: {}, sources: {} };
+	for (const [field, [labelled, value]] of Object.entries(found)) {
+		result[field] = value || null;
+		if (value) {
+			result.confidence[field] = TEMPLATE_CONFIDENCE;
+			result.sources[field] = labelled.source;
+		}
+	}
+	return result;
+}
+
+// A recognized layout still goes to the next extractor if its amount or date cannot be
+// read, since OCR noise or a changed layout is then more likely than a missing value
+export function createTemplateExtractor() {
+	return {
+		name: 'templates',
+
+		async extract(text, log) {
+			const template = matchTemplate(text);
+			if (!template) {
+				return null;
+			}
+
+			const analysis = extractWithTemplate(template, text);
+			if (!analysis.amount || !analysis.date) {
+				log.info('Recognized a layout but could not read its amount and date', { template: template.id });
+				return null;
+			}
+			return { ...analysis, template: template.id };
+		}
+	};
+}
@@ -0,0 +1,112 @@
+import sharp from 'sharp';
+import convertHeic from 'heic-convert';
+import path from 'path';
+import fs from 'fs';
+
+// Photo formats phones produce; 'image/jpg' is not a real type but some clients send it
+export const IMAGE_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/heic', 'image/heif'];
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.heic', '.heif'];
+const HEIC_EXTENSIONS = ['.heic', '.heif'];
+
+// Phone photos are often 4000px wide, which only slows OCR down
+const OCR_WIDTH = 2000;
+// Width of the copy used to measure skew
+const SKEW_SAMPLE_WIDTH = 600;
+// Largest skew corrected, in degrees
+const MAX_SKEW = 10;
+
+// HEIC photos are sometimes uploaded as application/octet-stream, so the extension counts too
+export function isImageUpload(file) {
+	const extension = path.extname(file.originalname || '').toLowerCase();
+	return IMAGE_MIME_TYPES.includes(file.mimetype) || IMAGE_EXTENSIONS.includes(extension);
+}
+
+function isHeic(file) {
+	const extension = path.extname(file.originalname || '').toLowerCase();
+	return ['image/heic', 'image/heif'].includes(file.mimetype) || HEIC_EXTENSIONS.includes(extension);
+}
+
+// sharp's prebuilt binaries cannot decode HEIC, so those photos are converted to JPEG first
+async function readImage(file) {
+	const buffer = await fs.promises.readFile(file.path);
+	if (!isHeic(file)) {
+		return buffer;
+	}
+	return Buffer.from(await convertHeic({ buffer, format: 'JPEG', quality: 1 }));
+}
+
+// How sharply the dark pixel counts change from row to row. Level text lines
+// give tall, narrow peaks, so the straightest rotation scores highest.
+async function scoreRotation(sample, angle) {
+	const { data, info } = await sharp(sample)
+		.rotate(angle, { background: '#ffffff' })
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+
+	let score = 0;
+	let previousRow = 0;
+	for (let y = 0; y < info.height; y++) {
+		let darkPixels = 0;
+		for (let x = 0; x < info.width; x++) {
+			if (data[(y * info.width + x) * info.channels] < 128) {
+				darkPixels++;
+			}
+		}
+		score += (darkPixels - previousRow) ** 2;
+		previousRow = darkPixels;
+	}
+	return score;
+}
+
+// Rotation in degrees that levels the text: a 1° sweep, then a finer one around the best angle
+async function findDeskewAngle(image) {
+	const sample = await sharp(image)
+		.resize({ width: SKEW_SAMPLE_WIDTH, withoutEnlargement: true })
+		.threshold(128)
+		.png()
+		.toBuffer();
+
+	const findBest = async (angles) => {
+		let best = { angle: 0, score: -1 };
+		for (const angle of angles) {
+			const score = await scoreRotation(sample, angle);
+			if (score > best.score) {
+				best = { angle, score };
+			}
+		}
+		return best.angle;
+	};
+
+	const coarseAngles = [];
+	for (let angle = -MAX_SKEW; angle <= MAX_SKEW; angle++) {
+		coarseAngles.push(angle);
+	}
+	const coarse = await findBest(coarseAngles);
+	return findBest([-0.75, -0.5, -0.25, 0, 0.25, 0.5, 0.75].map(offset => coarse + offset));
+}
+
+// Straighten and enhance a receipt photo for OCR. Writes a PNG next to the upload
+// and returns its path, which the caller deletes along with the upload.
+export async function preprocessImage(file) {
+	const input = await readImage(file);
+
+	// Apply the EXIF orientation first so phone photos start upright
+	const upright = await sharp(input)
+		.rotate()
+		.greyscale()
+		.resize({ width: OCR_WIDTH, withoutEnlargement: true })
+		.toBuffer();
+
+	const deskewAngle = await findDeskewAngle(upright);
+	const outputPath = `${file.path}.png`;
+
+	// Stretch the contrast so faded thermal paper and shadows still read clearly
+	await sharp(upright)
+		.rotate(deskewAngle, { background: '#ffffff' })
+		.normalise()
+		.sharpen()
+		.png()
+		.toFile(outputPath);
+
+	return { path: outputPath, deskewAngle };
+}
@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto';
+import { createLogger } from './logger.mjs';
+
+/**
+ * In-memory queue of receipt jobs, so a long OCR run does not hold an HTTP request open.
+ * Jobs run one at a time (OCR takes the whole CPU) in the order they were submitted.
+ *
+ * A job is { id, status, stage, createdAt, updatedAt, requestId? } plus `result` once it
+ * succeeded or `error` once it failed; requestId is that of the request that submitted it.
+ * Status goes queued → running → succeeded | failed, or to cancelled at any point before
+ * it finishes. Jobs are lost when the server restarts.
+ * A job belongs to the user who submitted it; to anyone else it does not exist.
+ *
+ * `run(input, { signal, setStage, log })` does the work and resolves to the result; it should
+ * stop at its next step once `signal` is aborted. `discard(input, { log })` cleans up the input
+ * of a job that is cancelled before it starts.
+ *
+ * Jobs log through the submitting request's logger with their jobId added, which `run`
+ * gets as `log`.
+ */
+
+export const JOB_STAGES = ['queued', 'preprocessing', 'ocr', 'analyzing', 'storing', 'done'];
+
+const FINISHED = ['succeeded', 'failed', 'cancelled'];
+
+export const JOB_STATUSES = ['queued', 'running', ...FINISHED];
+
+// Finished jobs are kept this long for the app to fetch the result
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+
+const toView = (job) => ({
+	id: job.id,
+	status: job.status,
+	stage: job.stage,
+	createdAt: job.createdAt,
+	updatedAt: job.updatedAt,
+	...(job.requestId && { requestId: job.requestId }),
+	...(job.status === 'succeeded' && { result: job.result }),
+	...(job.status === 'failed' && { error: job.error })
+});
+
+export function createJobQueue({ run, discard = () => {}, retentionMs = JOB_RETENTION_MS }) {
+	const jobs = new Map();
+	const pending = [];
+	let running = false;
+
+	const update = (job, changes) => {
+		Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+		if (FINISHED.includes(job.status)) {
+			job.input = null;
+			setTimeout(() => jobs.delete(job.id), retentionMs).unref();
+		}
+	};
+
+	async function runNext() {
+		if (running || pending.length === 0) return;
+		running = true;
+		const job = pending.shift();
+		update(job, { status: 'running' });
+
+		try {
+			const result = await run(job.input, {
+				signal: job.controller.signal,
+				setStage: (stage) => {
+					if (job.status === 'running') update(job, { stage });
+				},
+				log: job.log
+			});
+			if (job.status === 'running') {
+				update(job, { status: 'succeeded', stage: 'done', result });
+			}
+		} catch (error) {
+			if (job.status === 'running') {
+				job.log.error('Job failed', { error });
+				update(job, { status: 'failed', error: error.message });
+			}
+		} finally {
+			running = false;
+			runNext();
+		}
+	}
+
+	return {
+		submit(input, owner, { requestId, log = createLogger() } = {}) {
+			const now = new Date().toISOString();
+			const id = randomUUID();
+			const job = {
+				id,
+				status: 'queued',
+				stage: 'queued',
+				createdAt: now,
+				updatedAt: now,
+				requestId,
+				owner,
+				log: log.child({ jobId: id }),
+				input,
+				controller: new AbortController()
+			};
+			jobs.set(job.id, job);
+			pending.push(job);
+			runNext();
+			return toView(job);
+		},
+
+		get(id, owner) {
+			const job = jobs.get(id);
+			return job && job.owner === owner ? toView(job) : null;
+		},
+
+		// A running job is reported cancelled straight away; its work stops at the next stage.
+		// Finished jobs are left as they are.
+		cancel(id, owner) {
+			const job = jobs.get(id);
+			if (!job || job.owner !== owner) return null;
+			if (FINISHED.includes(job.status)) return toView(job);
+
+			if (job.status === 'queued') {
+				pending.splice(pending.indexOf(job), 1);
+				discard(job.input, { log: job.log });
+			}
+			job.controller.abort();
+			update(job, { status: 'cancelled' });
+			return toView(job);
+		}
+	};
+}
@@ -0,0 +1,139 @@
+/**
+ * Rate limits and daily quotas, so one client cannot use up the OCR and LLM budget.
+ * Counters live in a store: { name, increment(key, amount, windowMs) }, resolving to the
+ * counter after the increment, { count, resetAt } (resetAt in ms). A counter starts at its
+ * first increment and is dropped at resetAt. Limits are decided from the count an increment
+ * returns, so concurrent requests cannot all slip under a limit. The store is chosen with
+ * the LIMIT_STORE setting; a shared one (e.g. Redis INCRBY) would let several servers enforce
+ * the same limits by implementing the same method.
+ *
+ * Rejected requests get a 429 with a Retry-After header and
+ *   { error, code: 'rate-limited' | 'quota-exceeded', limit, retryAfter, resetAt }
+ * where retryAfter is in seconds. The middlewares run after requestLogger, for req.log.
+ */
+
+// Expired counters are swept this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Counters in this process, lost on restart
+export function createMemoryStore() {
+	const counters = new Map();
+
+	setInterval(() => {
+		const now = Date.now();
+		for (const [key, counter] of counters) {
+			if (counter.resetAt <= now) counters.delete(key);
+		}
+	}, SWEEP_INTERVAL_MS).unref();
+
+	const current = (key) => {
+		const counter = counters.get(key);
+		return counter && counter.resetAt > Date.now() ? counter : null;
+	};
+
+	return {
+		name: 'memory',
+
+		async increment(key, amount, windowMs) {
+			const counter = current(key) ?? { count: 0, resetAt: Date.now() + windowMs };
+			counter.count += amount;
+			counters.set(key, counter);
+			return { ...counter };
+		}
+	};
+}
+
+const STORES = {
+	memory: createMemoryStore
+};
+
+export const LIMIT_STORE_NAMES = Object.keys(STORES);
+
+// Store named by the LIMIT_STORE setting
+export function createLimitStore(name) {
+	const factory = STORES[name.toLowerCase()];
+	if (!factory) {
+		throw new Error(`Unknown LIMIT_STORE: ${name}`);
+	}
+	return factory();
+}
+
+const tooManyRequests = (res, { code, error, limit, resetAt }) => {
+	const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+	return res
+		.status(429)
+		.set('Retry-After', String(retryAfter))
+		.json({ error, code, limit, retryAfter, resetAt: new Date(resetAt).toISOString() });
+};
+
+// At most `limit` requests per `windowMs` for each key(req); requests without a key are not counted
+export function rateLimit({ store, name, limit, windowMs, key }) {
+	return async (req, res, next) => {
+		const id = key(req);
+		if (!id || !limit) return next();
+
+		try {
+			const { count, resetAt } = await store.increment(`rate:${name}:${id}`, 1, windowMs);
+			if (count > limit) {
+				req.log.info('Rate limit hit', { limiter: name, count, limit });
+				return tooManyRequests(res, {
+					code: 'rate-limited',
+					error: 'Too many requests, please slow down',
+					limit,
+					resetAt
+				});
+			}
+		} catch (error) {
+			// A broken store should not take the API down with it
+			req.log.error('Rate limit could not be checked', { limiter: name, error });
+		}
+		next();
+	};
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Up to `limit` documents per user per UTC day. Runs after the upload, since a request's cost is
+// its number of files; a request that would go over is rejected whole, its count taken back,
+// and `onRejected(req)` can clean up its files. A request let through gets req.quotaCharge,
+// for refundDailyQuota should its documents not be processed after all.
+export function dailyQuota({ store, limit, cost = (req) => req.files?.length ?? 1, onRejected = () => {} }) {
+	return async (req, res, next) => {
+		const uid = req.user?.uid;
+		if (!uid || !limit) return next();
+
+		const now = Date.now();
+		const day = new Date(now).toISOString().slice(0, 10);
+		const key = `quota:documents:${uid}:${day}`;
+		const nextMidnight = Math.floor(now / DAY_MS) * DAY_MS + DAY_MS;
+		const amount = cost(req);
+
+		try {
+			const { count } = await store.increment(key, amount, nextMidnight - now);
+			if (count > limit) {
+				await store.increment(key, -amount, nextMidnight - now)
+					.catch(error => req.log.error('Daily quota count could not be taken back', { error }));
+				req.log.info('Daily quota reached', { uid, used: count - amount, requested: amount, limit });
+				onRejected(req);
+				return tooManyRequests(res, {
+					code: 'quota-exceeded',
+					error: `Daily limit of ${limit} receipts reached`,
+					limit,
+					resetAt: nextMidnight
+				});
+			}
+			req.quotaCharge = { key, amount, resetAt: nextMidnight };
+		} catch (error) {
+			req.log.error('Daily quota could not be checked', { error });
+		}
+		next();
+	};
+}
+
+// Gives back a charge recorded by dailyQuota; a charge from an earlier day has already expired
+export async function refundDailyQuota(store, { key, amount, resetAt }) {
+	const windowMs = resetAt - Date.now();
+	if (windowMs > 0) {
+		await store.increment(key, -amount, windowMs);
+	}
+}
@@ -0,0 +1,37 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Short-lived links to stored receipts, for viewers that cannot send a sign-in token (the app
+ * opens PDFs in the browser on Android). A link is the receipt's path with an expiry time and
+ * an HMAC of the id and expiry as query parameters. Without a configured secret a random one
+ * is made at startup, so links stop working when the server restarts.
+ */
+
+export function createLinkSigner({ secret, ttlSeconds }) {
+	const key = secret || randomBytes(32);
+	const sign = (id, expires) => createHmac('sha256', key).update(`${id}:${expires}`).digest('base64url');
+
+	return {
+		// { path, expiresAt } of a link to receipt `id`, for the ReceiptLink schema
+		create(id, now = Date.now()) {
+			const expires = Math.floor(now / 1000) + ttlSeconds;
+			return {
+				path: `/receipts/${encodeURIComponent(id)}?expires=${expires}&signature=${sign(id, expires)}`,
+				expiresAt: new Date(expires * 1000).toISOString()
+			};
+		},
+
+		// Whether the `expires` and `signature` query parameters make a link to `id` that has not expired
+		verify(id, { expires, signature }, now = Date.now()) {
+			if (typeof expires !== 'string' || typeof signature !== 'string' || !/^\d+$/.test(expires)) {
+				return false;
+			}
+			if (Number(expires) * 1000 <= now) {
+				return false;
+			}
+			const expected = Buffer.from(sign(id, expires));
+			const actual = Buffer.from(signature);
+			return actual.length === expected.length && timingSafeEqual(actual, expected);
+		}
+	};
+}
@@ -0,0 +1,117 @@
+import { randomUUID } from 'crypto';
+
+/**
+ * Structured logs: one JSON object per line, { time, level, msg, ...fields }, on stdout
+ * (warnings and errors on stderr). A child logger adds its fields to every entry, e.g. the
+ * requestId of the request it logs for. Secrets are always redacted; what a receipt says
+ * (its text, names, reference numbers) and users' emails are too, unless LOG_REDACT is off.
+ */
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'];
+
+// Sent back on every response, and accepted from a proxy or the client in front of us
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Field names, lowercased. Secrets are never logged; personal data only with LOG_REDACT=false.
+const SECRET_KEYS = new Set(['authorization', 'cookie', 'token', 'apikey', 'groqapikey', 'password']);
+const PERSONAL_KEYS = new Set(['extractedtext', 'text', 'beneficiaryname', 'referenceid', 'source', 'sources', 'email']);
+
+const REDACTED = '[redacted]';
+// Deeper values (and cycles) are cut off
+const MAX_DEPTH = 6;
+
+// A client's own id is kept if it looks like one, so its logs and ours can be matched up
+const VALID_REQUEST_ID = /^[\w.:-]{1,100}$/;
+
+function sanitize(value, redactPersonal, depth = 0) {
+	if (value instanceof Error) {
+		const { name, message, code, stack } = value;
+		return sanitize({ name, message, ...(code && { code }), stack }, redactPersonal, depth);
+	}
+	if (value instanceof Date) {
+		return value.toISOString();
+	}
+	if (value === null || typeof value !== 'object') {
+		return value;
+	}
+	if (depth >= MAX_DEPTH) {
+		return '[truncated]';
+	}
+	if (Array.isArray(value)) {
+		return value.map(item => sanitize(item, redactPersonal, depth + 1));
+	}
+
+	return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+		const name = key.toLowerCase();
+		const redacted = SECRET_KEYS.has(name) || (redactPersonal && PERSONAL_KEYS.has(name));
+		return [key, redacted && item !== null && item !== undefined ? REDACTED : sanitize(item, redactPersonal, depth + 1)];
+	}));
+}
+
+// { debug, info, warn, error }(msg, fields?) and child(fields). Entries below `level` are dropped.
+export function createLogger({ level = 'info', redact = true, fields = {} } = {}) {
+	const minimum = LOG_LEVELS.indexOf(level);
+
+	const write = (entryLevel, msg, entryFields = {}) => {
+		if (LOG_LEVELS.indexOf(entryLevel) < minimum) return;
+		const entry = {
+			time: new Date().toISOString(),
+			level: entryLevel,
+			msg,
+			...sanitize({ ...fields, ...entryFields }, redact)
+		};
+		const stream = entryLevel === 'warn' || entryLevel === 'error' ? process.stderr : process.stdout;
+		stream.write(JSON.stringify(entry) + '\n');
+	};
+
+	return {
+		debug: (msg, entryFields) => write('debug', msg, entryFields),
+		info: (msg, entryFields) => write('info', msg, entryFields),
+		warn: (msg, entryFields) => write('warn', msg, entryFields),
+		error: (msg, entryFields) => write('error', msg, entryFields),
+		child: (childFields) => createLogger({ level, redact, fields: { ...fields, ...childFields } })
+	};
+}
+
+// Call the returned function for the milliseconds since
+export const startTimer = () => {
+	const started = performance.now();
+	return () => Math.round(performance.now() - started);
+};
+
+// Gives every request an id (sent back in the X-Request-Id header), a logger that adds it to
+// each entry (req.log) and req.timings for the time its stages took, in ms. Logs the request
+// once it has been answered.
+export function requestLogger(log) {
+	return (req, res, next) => {
+		const incoming = req.get(REQUEST_ID_HEADER);
+		req.id = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+		req.log = log.child({ requestId: req.id });
+		req.timings = {};
+		res.set(REQUEST_ID_HEADER, req.id);
+
+		const elapsed = startTimer();
+		res.on('finish', () => {
+			const entry = {
+				method: req.method,
+				// The route rather than the URL, which for receipts holds the id that grants access
+				route: req.route?.path ?? req.path,
+				status: res.statusCode,
+				durationMs: elapsed(),
+				...(req.user && { uid: req.user.uid }),
+				...(Object.keys(req.timings).length > 0 && { timingsMs: req.timings })
+			};
+			req.log[res.statusCode >= 500 ? 'error' : 'info']('Request finished', entry);
+		});
+		next();
+	};
+}
+
+// `middleware`, with the time it took recorded as req.timings[stage], e.g. for the upload
+export const timed = (stage, middleware) => (req, res, next) => {
+	const elapsed = startTimer();
+	middleware(req, res, (error) => {
+		req.timings[stage] = elapsed();
+		next(error);
+	});
+};
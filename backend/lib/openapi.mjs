@@ -0,0 +1,219 @@
+import { SCHEMAS } from './schema.mjs';
+
+/**
+ * OpenAPI 3.1 description of the API, served at GET /openapi.json and published as
+ * openapi.json by scripts/generate-api.mjs. Every body is one of the schemas in
+ * lib/schema.mjs, so the document cannot drift from what the server validates.
+ */
+
+const ref = (kind, name) => ({ $ref: `#/components/${kind}/${name}` });
+
+const json = (schema) => ({ 'application/json': { schema } });
+
+// Every response says which request it answers
+const response = (description, content, headers = {}) => ({
+	description,
+	headers: { 'X-Request-Id': ref('headers', 'RequestId'), ...headers },
+	...(content && { content })
+});
+
+const ERROR_STATUS = {
+	BadRequest: '400',
+	Unauthorized: '401',
+	NotFound: '404',
+	TooManyRequests: '429',
+	ServerError: '500'
+};
+
+// Shared error responses by name, keyed by their status
+const errors = (...names) => Object.fromEntries(names.map(name => [ERROR_STATUS[name], ref('responses', name)]));
+
+// The files of a receipt upload, plus the categories a suggestion may pick from
+const receiptUpload = (field, description) => ({
+	required: true,
+	content: {
+		'multipart/form-data': {
+			schema: {
+				type: 'object',
+				required: [field],
+				properties: {
+					[field]: { type: 'array', items: { type: 'string', format: 'binary' }, description },
+					categories: {
+						type: 'string',
+						contentMediaType: 'application/json',
+						description: 'JSON array of CategoryOption to suggest from; the built-in categories without it'
+					}
+				}
+			},
+			encoding: {
+				[field]: { contentType: 'application/pdf, image/jpeg, image/png, image/heic, image/heif' }
+			}
+		}
+	}
+});
+
+const idParameter = (description) => ({
+	name: 'id',
+	in: 'path',
+	required: true,
+	description,
+	schema: { type: 'string' }
+});
+
+export function createOpenAPIDocument() {
+	return {
+		openapi: '3.1.0',
+		info: {
+			title: 'Expense Tracker Receipt API',
+			version: '1.0.0',
+			description: 'OCR and analysis of receipts for the ExpensesTrackerV2 app. Uploads are limited to MAX_PAGES files per receipt, MAX_BATCH_SIZE receipts per batch and MAX_UPLOAD_MB per file (10 each by default).'
+		},
+		security: [{ bearerAuth: [] }],
+		paths: {
+			'/': {
+				get: {
+					operationId: 'getStatus',
+					summary: 'Health check',
+					security: [],
+					responses: { 200: response('The server is running', json(ref('schemas', 'ServerStatus'))) }
+				}
+			},
+			'/test': {
+				get: {
+					operationId: 'testConnection',
+					summary: 'Connectivity test',
+					security: [],
+					responses: { 200: response('The server is reachable', json(ref('schemas', 'ServerStatus'))) }
+				}
+			},
+			'/openapi.json': {
+				get: {
+					operationId: 'getOpenAPIDocument',
+					summary: 'This document',
+					security: [],
+					responses: { 200: response('OpenAPI document', json({ type: 'object' })) }
+				}
+			},
+			'/extract-text': {
+				post: {
+					operationId: 'extractText',
+					summary: 'Analyze one receipt and wait for the result',
+					requestBody: receiptUpload('file', 'One PDF, or the photos of one receipt as its pages'),
+					responses: {
+						200: response('The analyzed receipt', json(ref('schemas', 'AnalyzedReceipt'))),
+						...errors('BadRequest', 'Unauthorized', 'TooManyRequests', 'ServerError')
+					}
+				}
+			},
+			'/extract-batch': {
+				post: {
+					operationId: 'extractBatch',
+					summary: 'Analyze several receipts, one per file',
+					requestBody: receiptUpload('files', 'One receipt per file'),
+					responses: {
+						200: response('A result per receipt; a failed receipt does not fail the batch', json(ref('schemas', 'BatchResponse'))),
+						...errors('BadRequest', 'Unauthorized', 'TooManyRequests', 'ServerError')
+					}
+				}
+			},
+			'/jobs': {
+				post: {
+					operationId: 'submitJob',
+					summary: 'Start analyzing one receipt in the background',
+					requestBody: receiptUpload('file', 'One PDF, or the photos of one receipt as its pages'),
+					responses: {
+						202: response('The queued job', json(ref('schemas', 'ReceiptJob')), {
+							Location: { description: 'Where to poll the job', schema: { type: 'string' } }
+						}),
+						...errors('BadRequest', 'Unauthorized', 'TooManyRequests', 'ServerError')
+					}
+				}
+			},
+			'/jobs/{id}': {
+				parameters: [idParameter('Job id')],
+				get: {
+					operationId: 'getJob',
+					summary: 'Current state of a job, with the result once it succeeded',
+					responses: {
+						200: response('The job', json(ref('schemas', 'ReceiptJob'))),
+						...errors('Unauthorized', 'NotFound', 'TooManyRequests')
+					}
+				},
+				delete: {
+					operationId: 'cancelJob',
+					summary: 'Cancel a job that has not finished',
+					responses: {
+						200: response('The job, cancelled unless it had already finished', json(ref('schemas', 'ReceiptJob'))),
+						...errors('Unauthorized', 'NotFound', 'TooManyRequests')
+					}
+				}
+			},
+			'/receipts/{id}': {
+				parameters: [idParameter('Attachment id')],
+				get: {
+					operationId: 'getReceipt',
+					summary: 'A stored receipt file, shown inline',
+					description: 'Only the user who uploaded the file can load it; for anyone else it is not found. Instead of the token, the query parameters of a link from POST /receipts/{id}/link can be sent.',
+					parameters: [
+						{ name: 'expires', in: 'query', description: 'Of a receipt link', schema: { type: 'string' } },
+						{ name: 'signature', in: 'query', description: 'Of a receipt link', schema: { type: 'string' } }
+					],
+					responses: {
+						200: response('The original file', {
+							'application/pdf': { schema: { type: 'string', format: 'binary' } },
+							'image/*': { schema: { type: 'string', format: 'binary' } }
+						}),
+						...errors('Unauthorized', 'NotFound', 'TooManyRequests', 'ServerError')
+					}
+				},
+				delete: {
+					operationId: 'deleteReceipt',
+					summary: 'Delete a stored receipt file',
+					description: 'Only the user who uploaded the file can delete it; for anyone else it is not found.',
+					responses: {
+						204: response('Deleted'),
+						...errors('Unauthorized', 'NotFound', 'TooManyRequests', 'ServerError')
+					}
+				}
+			},
+			'/receipts/{id}/link': {
+				parameters: [idParameter('Attachment id')],
+				post: {
+					operationId: 'createReceiptLink',
+					summary: 'A short-lived link to a stored receipt, for viewers that cannot send a token',
+					responses: {
+						200: response('The link', json(ref('schemas', 'ReceiptLink'))),
+						...errors('Unauthorized', 'NotFound', 'TooManyRequests', 'ServerError')
+					}
+				}
+			}
+		},
+		components: {
+			schemas: SCHEMAS,
+			securitySchemes: {
+				bearerAuth: {
+					type: 'http',
+					scheme: 'bearer',
+					description: 'The signed-in user\'s Firebase ID token'
+				}
+			},
+			headers: {
+				RequestId: {
+					description: 'Id the request was logged under; the request\'s own X-Request-Id if it sent one',
+					schema: { type: 'string' }
+				}
+			},
+			responses: {
+				BadRequest: response('Missing, too many, too large or unsupported files', json(ref('schemas', 'ErrorResponse'))),
+				Unauthorized: response('No valid sign-in token or receipt link', json(ref('schemas', 'ErrorResponse')), {
+					'WWW-Authenticate': { schema: { type: 'string' } }
+				}),
+				NotFound: response('No such job or receipt', json(ref('schemas', 'ErrorResponse'))),
+				TooManyRequests: response('Over a rate limit or the daily quota', json(ref('schemas', 'ErrorResponse')), {
+					'Retry-After': { description: 'Seconds', schema: { type: 'integer' } }
+				}),
+				ServerError: response('The receipt could not be processed', json(ref('schemas', 'ErrorResponse')))
+			}
+		}
+	};
+}
@@ -0,0 +1,309 @@
+import { findDate, findTime } from './extractors/regex.mjs';
+import { JOB_STAGES, JOB_STATUSES } from './jobs.mjs';
+
+/**
+ * The API contract: JSON Schemas for every request field, response and error body. The
+ * same definitions validate values at runtime (validate, coerce), become the components
+ * of the OpenAPI document (lib/openapi.mjs) and the app's TypeScript types
+ * (scripts/generate-api.mjs). Change the API here first, then regenerate.
+ *
+ * Only the parts of JSON Schema used below are supported: type (one or a list, with
+ * "null"), enum, const, properties, required, additionalProperties, items, oneOf, $ref,
+ * minimum, maximum, minLength, maxLength, pattern and format.
+ */
+
+export const ANALYSIS_FIELDS = ['referenceId', 'date', 'time', 'beneficiaryName', 'amount'];
+
+const ref = (name) => ({ $ref: `#/components/schemas/${name}` });
+
+// Checks for `format`; `read` pulls a value in the right shape out of free text, for coerce
+const FORMATS = {
+	date: { pattern: /^\d{4}-\d{2}-\d{2}$/, read: findDate },
+	'date-time': { pattern: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/ },
+	// As printed on receipts: "14:05", "14:05:33" or "2:05 PM"
+	'time-of-day': { pattern: /^([01]?\d|2[0-3]):[0-5]\d(:[0-5]\d)?(\s*[AaPp][Mm])?$/, read: findTime }
+};
+
+export const SCHEMAS = {
+	AnalysisField: {
+		type: 'string',
+		enum: ANALYSIS_FIELDS
+	},
+	FieldConfidence: {
+		description: 'How sure the backend is of a field and the receipt text it was read from',
+		type: 'object',
+		required: ['confidence', 'source'],
+		additionalProperties: false,
+		properties: {
+			confidence: { type: 'number', minimum: 0, maximum: 1 },
+			source: { type: ['string', 'null'], maxLength: 120 }
+		}
+	},
+	CategoryOption: {
+		description: 'A category the user can pick; the app sends these so suggestions use its own ids',
+		type: 'object',
+		required: ['id', 'name'],
+		properties: {
+			id: { type: 'string', minLength: 1 },
+			name: { type: 'string' }
+		}
+	},
+	CategorySuggestion: {
+		type: 'object',
+		required: ['id', 'confidence', 'reason'],
+		additionalProperties: false,
+		properties: {
+			id: { type: 'string', description: 'One of the categories sent with the upload' },
+			confidence: { type: 'number', minimum: 0, maximum: 1 },
+			reason: { type: 'string', description: 'Shown to the user, e.g. The receipt mentions "petrol"' }
+		}
+	},
+	ReceiptAnalysis: {
+		description: 'Fields read from a receipt; null when not found',
+		type: 'object',
+		required: [...ANALYSIS_FIELDS, 'fields', 'suggestedCategory'],
+		additionalProperties: false,
+		properties: {
+			referenceId: { type: ['string', 'null'], maxLength: 100 },
+			date: { type: ['string', 'null'], format: 'date' },
+			time: { type: ['string', 'null'], format: 'time-of-day' },
+			beneficiaryName: { type: ['string', 'null'], maxLength: 200 },
+			amount: { type: ['string', 'null'], pattern: '\\d', maxLength: 50, description: 'With the currency as printed, e.g. "RM 1,250.50"' },
+			fields: {
+				description: 'Only for the fields that were found',
+				type: 'object',
+				additionalProperties: false,
+				properties: Object.fromEntries(ANALYSIS_FIELDS.map(field => [field, ref('FieldConfidence')]))
+			},
+			suggestedCategory: {
+				description: 'Null when nothing on the receipt points to a category',
+				oneOf: [ref('CategorySuggestion'), { type: 'null' }]
+			}
+		}
+	},
+	ReceiptAttachment: {
+		description: 'An original receipt file the backend kept after analysis; expenses link to these',
+		type: 'object',
+		required: ['id', 'filename', 'mimeType', 'size'],
+		additionalProperties: false,
+		properties: {
+			id: { type: 'string' },
+			filename: { type: 'string' },
+			mimeType: { type: 'string' },
+			size: { type: 'integer', minimum: 0 }
+		}
+	},
+	ReceiptLink: {
+		description: 'A link that opens a stored receipt without a token until it expires',
+		type: 'object',
+		required: ['path', 'expiresAt'],
+		additionalProperties: false,
+		properties: {
+			path: { type: 'string', description: 'Of GET /receipts/{id} with the link\'s query parameters; relative to the API\'s base URL' },
+			expiresAt: { type: 'string', format: 'date-time' }
+		}
+	},
+	AnalyzedReceipt: {
+		type: 'object',
+		required: ['success', 'filename', 'pages', 'extractedText', 'analysis', 'extractor', 'attachments', 'contentHash'],
+		additionalProperties: false,
+		properties: {
+			success: { const: true },
+			filename: { type: 'string' },
+			pages: { type: 'integer', minimum: 1, description: 'Number of files read as this receipt' },
+			extractedText: { type: 'string' },
+			analysis: ref('ReceiptAnalysis'),
+			extractor: {
+				type: ['string', 'null'],
+				description: 'Extractor that produced the analysis, e.g. "templates:maybank2u", "groq" or "regex"; null if none found anything'
+			},
+			attachments: { type: 'array', items: ref('ReceiptAttachment'), description: 'One per uploaded file, in page order' },
+			contentHash: { type: 'string', description: 'SHA-256 of the uploaded file(s), the same for every upload of the same file' },
+			message: { type: 'string' }
+		}
+	},
+	FailedReceipt: {
+		description: 'A receipt of a batch that could not be analyzed',
+		type: 'object',
+		required: ['success', 'filename', 'extractedText', 'error'],
+		additionalProperties: false,
+		properties: {
+			success: { const: false },
+			filename: { type: 'string' },
+			extractedText: { type: 'string' },
+			error: { type: 'string' },
+			details: { type: 'string' }
+		}
+	},
+	BatchResponse: {
+		type: 'object',
+		required: ['success', 'results', 'message'],
+		additionalProperties: false,
+		properties: {
+			success: { const: true },
+			results: {
+				type: 'array',
+				description: 'In the order the files were sent',
+				items: { oneOf: [ref('AnalyzedReceipt'), ref('FailedReceipt')] }
+			},
+			message: { type: 'string' }
+		}
+	},
+	ReceiptJobStatus: {
+		type: 'string',
+		enum: JOB_STATUSES
+	},
+	ReceiptJobStage: {
+		type: 'string',
+		enum: JOB_STAGES
+	},
+	ReceiptJob: {
+		description: 'A receipt being processed in the background',
+		type: 'object',
+		required: ['id', 'status', 'stage', 'createdAt', 'updatedAt'],
+		additionalProperties: false,
+		properties: {
+			id: { type: 'string' },
+			status: ref('ReceiptJobStatus'),
+			stage: {
+				...ref('ReceiptJobStage'),
+				description: 'Step the job is at, or was at when it failed or was cancelled'
+			},
+			createdAt: { type: 'string', format: 'date-time' },
+			updatedAt: { type: 'string', format: 'date-time' },
+			requestId: { type: 'string', description: 'Of the request that submitted the job' },
+			result: { ...ref('AnalyzedReceipt'), description: 'Once succeeded' },
+			error: { type: 'string', description: 'Once failed' }
+		}
+	},
+	ErrorResponse: {
+		description: 'Body of every 4xx and 5xx response',
+		type: 'object',
+		required: ['error'],
+		additionalProperties: false,
+		properties: {
+			error: { type: 'string', description: 'What went wrong, in words' },
+			code: {
+				type: 'string',
+				description: 'invalid-upload, not-found, extraction-failed, internal, rate-limited, quota-exceeded, or an auth/* code such as auth/missing-token, auth/invalid-token, auth/id-token-expired and auth/invalid-link'
+			},
+			details: { type: 'string' },
+			limit: { type: 'integer', description: 'For rate-limited and quota-exceeded' },
+			retryAfter: { type: 'integer', description: 'Seconds until a retry can succeed, for rate-limited and quota-exceeded' },
+			resetAt: { type: 'string', format: 'date-time', description: 'For rate-limited and quota-exceeded' }
+		}
+	},
+	ServerStatus: {
+		type: 'object',
+		required: ['message'],
+		properties: {
+			message: { type: 'string' },
+			timestamp: { type: 'string', format: 'date-time' }
+		}
+	}
+};
+
+const resolve = (schema) => schema.$ref ? { ...SCHEMAS[schema.$ref.split('/').pop()], ...schema, $ref: undefined } : schema;
+
+const typeOf = (value) => {
+	if (value === null) return 'null';
+	if (Array.isArray(value)) return 'array';
+	if (Number.isInteger(value)) return 'integer';
+	return typeof value;
+};
+
+const allowsType = (schema, type) => {
+	const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+	return types.includes(type) || (type === 'integer' && types.includes('number'));
+};
+
+// Problems with `value` against `schema` (a schema or the name of one), e.g.
+// "analysis.date: must match format date"; empty when it matches. Values are never quoted,
+// so the problems can be logged.
+export function validate(schema, value, path = '') {
+	const current = resolve(typeof schema === 'string' ? ref(schema) : schema);
+	const at = path || 'value';
+
+	if (current.oneOf) {
+		const matches = current.oneOf.filter(option => validate(option, value, path).length === 0).length;
+		return matches === 1 ? [] : [`${at}: must match exactly one of its allowed shapes`];
+	}
+	if ('const' in current && value !== current.const) {
+		return [`${at}: must be ${JSON.stringify(current.const)}`];
+	}
+	if (current.type && !allowsType(current, typeOf(value))) {
+		return [`${at}: must be ${[current.type].flat().join(' or ')}`];
+	}
+	if (current.enum && !current.enum.includes(value)) {
+		return [`${at}: must be one of ${current.enum.join(', ')}`];
+	}
+
+	const problems = [];
+	if (typeof value === 'string') {
+		if (current.minLength !== undefined && value.length < current.minLength) problems.push(`${at}: is too short`);
+		if (current.maxLength !== undefined && value.length > current.maxLength) problems.push(`${at}: is too long`);
+		if (current.pattern && !new RegExp(current.pattern).test(value)) problems.push(`${at}: must match ${current.pattern}`);
+		if (current.format && FORMATS[current.format] && !FORMATS[current.format].pattern.test(value)) {
+			problems.push(`${at}: must match format ${current.format}`);
+		}
+	}
+	if (typeof value === 'number') {
+		if (current.minimum !== undefined && value < current.minimum) problems.push(`${at}: must be at least ${current.minimum}`);
+		if (current.maximum !== undefined && value > current.maximum) problems.push(`${at}: must be at most ${current.maximum}`);
+	}
+	if (Array.isArray(value) && current.items) {
+		value.forEach((item, index) => problems.push(...validate(current.items, item, `${path}[${index}]`)));
+	}
+	if (typeOf(value) === 'object') {
+		const properties = current.properties ?? {};
+		for (const name of current.required ?? []) {
+			if (!(name in value)) problems.push(`${path ? `${path}.` : ''}${name}: is required`);
+		}
+		for (const [name, item] of Object.entries(value)) {
+			const itemPath = path ? `${path}.${name}` : name;
+			if (properties[name]) {
+				problems.push(...validate(properties[name], item, itemPath));
+			} else if (current.additionalProperties === false) {
+				problems.push(`${itemPath}: is not allowed`);
+			} else if (typeof current.additionalProperties === 'object') {
+				problems.push(...validate(current.additionalProperties, item, itemPath));
+			}
+		}
+	}
+	return problems;
+}
+
+// Text an LLM writes for "nothing found"
+const BLANK_TEXT = /^(null|none|n\/a|not found|unknown|-)?$/i;
+
+// `value` made to fit a string or number `schema` where that is safe: numbers written as text
+// and text as numbers, trimmed text, blanks to null, dates and times read out of longer text.
+// A value that still does not fit is rejected: it becomes null (or undefined when the schema
+// does not allow null) and `problems` say why.
+export function coerce(schema, value) {
+	const current = resolve(schema);
+	const nullable = allowsType(current, 'null');
+	let candidate = value ?? null;
+
+	if (allowsType(current, 'string') && (typeof candidate === 'number' || typeof candidate === 'boolean')) {
+		candidate = String(candidate);
+	}
+	if (typeof candidate === 'string') {
+		candidate = candidate.trim();
+		if (BLANK_TEXT.test(candidate) && nullable) {
+			candidate = null;
+		} else if (allowsType(current, 'number') && !allowsType(current, 'string') && candidate !== '' && !Number.isNaN(Number(candidate))) {
+			candidate = Number(candidate);
+		} else if (current.format && FORMATS[current.format]?.read && !FORMATS[current.format].pattern.test(candidate)) {
+			candidate = FORMATS[current.format].read(candidate) ?? candidate;
+		}
+	}
+	if (candidate === null && !nullable) {
+		return { value: undefined, problems: value === undefined ? [] : ['value: must not be empty'] };
+	}
+
+	const problems = validate(current, candidate);
+	return problems.length === 0
+		? { value: candidate, problems }
+		: { value: nullable ? null : undefined, problems };
+}
@@ -0,0 +1,72 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
+import fs from 'fs';
+
+/**
+ * Storage for original receipt files, so expenses can link to them after processing.
+ * Every adapter has the same methods:
+ *   save(sourcePath, { filename, mimeType, ownerUid }) → { id, filename, mimeType, size }
+ *   find(id) → { id, filename, mimeType, size, ownerUid }, or null if there is no such receipt
+ *   open(id) → the same with a `stream` of the file, or null
+ *   remove(id, ownerUid) → false if there is no such receipt or another user uploaded it
+ * Ids are random UUIDs; `ownerUid` is the uid of the user who uploaded the file.
+ */
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Files on the server's disk, each next to a JSON file with its metadata. For development
+// and single-server setups; the directory must survive restarts.
+export function createLocalStorage(rootDir) {
+	const filePath = (id) => path.join(rootDir, id);
+	const metadataPath = (id) => path.join(rootDir, `${id}.json`);
+
+	const readMetadata = async (id) => {
+		if (!ID_PATTERN.test(id) || !fs.existsSync(metadataPath(id))) {
+			return null;
+		}
+		return JSON.parse(await fs.promises.readFile(metadataPath(id), 'utf8'));
+	};
+
+	return {
+		async save(sourcePath, { filename, mimeType, ownerUid }) {
+			await fs.promises.mkdir(rootDir, { recursive: true });
+
+			const id = randomUUID();
+			await fs.promises.copyFile(sourcePath, filePath(id));
+			const { size } = await fs.promises.stat(filePath(id));
+
+			const metadata = { id, filename, mimeType, size, ownerUid, storedAt: new Date().toISOString() };
+			await fs.promises.writeFile(metadataPath(id), JSON.stringify(metadata));
+			return { id, filename, mimeType, size };
+		},
+
+		find: readMetadata,
+
+		async open(id) {
+			const metadata = await readMetadata(id);
+			return metadata && { ...metadata, stream: fs.createReadStream(filePath(id)) };
+		},
+
+		async remove(id, ownerUid) {
+			const metadata = await readMetadata(id);
+			if (!metadata || metadata.ownerUid !== ownerUid) {
+				return false;
+			}
+			await fs.promises.rm(filePath(id), { force: true });
+			await fs.promises.rm(metadataPath(id), { force: true });
+			return true;
+		}
+	};
+}
+
+export const STORAGE_ADAPTERS = ['local'];
+
+// Adapter chosen by the RECEIPT_STORAGE setting; only 'local' exists so far
+export function createStorage({ adapter, dir }) {
+	switch (adapter) {
+		case 'local':
+			return createLocalStorage(dir);
+		default:
+			throw new Error(`Unknown RECEIPT_STORAGE adapter: ${adapter}`);
+	}
+}
@@ -4,86 +4,82 @@ import cors from 'cors';
 import scribe from 'scribe.js-ocr';
 import path from 'path';
 import fs from 'fs';
-import Groq from 'groq-sdk';
+import { createHash } from 'crypto';
+import { createVerifier, requireAuth } from './lib/auth.mjs';
+import { parseCategories, suggestCategory } from './lib/categories.mjs';
+import { loadConfig, redactConfig } from './lib/config.mjs';
+import { createExtractor } from './lib/extractors/index.mjs';
+import { isImageUpload, preprocessImage } from './lib/images.mjs';
+import { createJobQueue } from './lib/jobs.mjs';
+import { createLinkSigner } from './lib/links.mjs';
+import { createLimitStore, dailyQuota, rateLimit, refundDailyQuota } from './lib/limits.mjs';
+import { createLogger, REQUEST_ID_HEADER, requestLogger, startTimer, timed } from './lib/logger.mjs';
+import { createOpenAPIDocument } from './lib/openapi.mjs';
+import { createStorage } from './lib/storage.mjs';
 import dotenv from "dotenv"
 dotenv.config()
 
+// Settings from the environment and config.json (see lib/config.mjs); invalid values stop
+// the server here, before anything else starts
+let config;
+try {
+	config = loadConfig();
+} catch (error) {
+	createLogger().error('Invalid configuration', { problems: error.problems ?? [error.message] });
+	process.exit(1);
+}
+
+// JSON lines with receipt contents redacted (see lib/logger.mjs)
+const log = createLogger({ level: config.logLevel, redact: config.logRedact });
+log.info('Configuration', { config: redactConfig(config) });
 
 const app = express();
-const port = 3000;
+// Behind TRUST_PROXY reverse proxies, req.ip (which the per-IP rate limit counts by) is the
+// client's address rather than the proxy's
+app.set('trust proxy', config.trustProxy);
 
-// Initialize Groq client
-const groq = new Groq({
-	apiKey: process.env.GROQ_API_KEY
+// Turns OCR text into receipt fields, trying each extractor of the chain in turn
+const extractor = createExtractor(config.extractors, {
+	groq: { apiKey: config.groqApiKey, model: config.groqModel }
 });
 
-// Function to analyze text with Groq and extract financial data
-async function analyzeFinancialDocument(text) {
-	try {
-		const prompt = `
-You are a financial document analyzer. Extract the following information from this text and return it as a JSON object with these exact keys:
-
-{
-  "referenceId": "reference number or transaction ID",
-  "date": "date in YYYY-MM-DD format if possible",
-  "time": "time if available",
-  "beneficiaryName": "name of the recipient/beneficiary",
-  "amount": "monetary amount with currency if available"
-}
-
-If any field is not found, use null for that field. Only return the JSON object, no other text.
-
-Text to analyze:
-${text}
-`;
-
-		const completion = await groq.chat.completions.create({
-			messages: [
-				{
-					role: "user",
-					content: prompt
-				}
-			],
-			model: "llama3-8b-8192",
-			temperature: 0.1,
-			max_tokens: 500,
-		});
+// The native app sends no Origin; CORS_ORIGINS limits which web origins may call the API
+app.use(cors({
+	exposedHeaders: [REQUEST_ID_HEADER],
+	...(config.corsOrigins.length && { origin: config.corsOrigins })
+}));
+app.use(express.json());
 
-		const response = completion.choices[0]?.message?.content;
+// Request id and logger (req.id, req.log) for everything below
+app.use(requestLogger(log));
 
-		// Try to parse the JSON response
-		try {
-			return JSON.parse(response);
-		} catch (parseError) {
-			console.error('Failed to parse Groq response as JSON:', response);
-			return {
-				referenceId: null,
-				date: null,
-				time: null,
-				beneficiaryName: null,
-				amount: null
-			};
-		}
-	} catch (error) {
-		console.error('Error analyzing document with Groq:', error);
-		return {
-			referenceId: null,
-			date: null,
-			time: null,
-			beneficiaryName: null,
-			amount: null
-		};
-	}
-}
+// Requests per minute from one address, on every endpoint; uploads per minute and receipt
+// documents per day for each user. 0 turns a limit off.
+const limitStore = createLimitStore(config.limitStore);
+app.use(rateLimit({ store: limitStore, name: 'ip', limit: config.rateLimitIpPerMinute, windowMs: 60 * 1000, key: req => req.ip }));
+const limitUploads = rateLimit({
+	store: limitStore,
+	name: 'uploads',
+	limit: config.rateLimitUserPerMinute,
+	windowMs: 60 * 1000,
+	key: req => req.user?.uid
+});
+// After multer and the upload checks, so only the documents that will be processed are counted
+const documentQuota = dailyQuota({
+	store: limitStore,
+	limit: config.dailyDocumentQuota,
+	onRejected: req => removeFiles((req.files || []).map(file => file.path))
+});
 
-// Enable CORS for React Native app
-app.use(cors());
-app.use(express.json());
+// Every endpoint that costs OCR or LLM time, or touches a user's receipts, needs a signed-in
+// user; checked before multer so anonymous uploads never reach the disk
+const verifier = createVerifier({ name: config.authVerifier, projectId: config.firebaseProjectId });
+const authenticate = requireAuth(verifier);
 
 // Configure multer for file uploads
 const storage = multer.diskStorage({
 	destination: (req, file, cb) => {
-		const uploadDir = 'uploads/';
+		const uploadDir = config.uploadDir;
 		if (!fs.existsSync(uploadDir)) {
 			fs.mkdirSync(uploadDir, { recursive: true });
 		}
@@ -99,17 +95,33 @@ const storage = multer.diskStorage({
 const upload = multer({
 	storage,
 	fileFilter: (req, file, cb) => {
-		if (file.mimetype === 'application/pdf') {
+		if (file.mimetype === 'application/pdf' || isImageUpload(file)) {
 			cb(null, true);
 		} else {
-			cb(new Error('Only PDF files are allowed!'), false);
+			cb(Object.assign(new Error('Only PDF, JPEG, PNG and HEIC files are allowed!'), { code: 'invalid-upload' }), false);
 		}
 	},
 	limits: {
-		fileSize: 10 * 1024 * 1024 // 10MB limit
+		fileSize: config.maxUploadMB * 1024 * 1024
 	}
 });
 
+// Original receipt files, linked from the expenses saved from them
+const receiptStorage = createStorage({ adapter: config.receiptStorage, dir: config.receiptStorageDir });
+const receiptLinks = createLinkSigner({ secret: config.receiptLinkSecret, ttlSeconds: config.receiptLinkTtlSeconds });
+
+// The token, or a receipt link from POST /receipts/:id/link in its place. Links are only made
+// for the receipt's owner, so a request with one has no req.user to check.
+const authenticateReceipt = (req, res, next) => {
+	if (req.query.signature === undefined) {
+		return authenticate(req, res, next);
+	}
+	if (!receiptLinks.verify(req.params.id, req.query)) {
+		return res.status(401).json({ error: 'Invalid or expired receipt link', code: 'auth/invalid-link' });
+	}
+	next();
+};
+
 // Health check endpoint
 app.get('/', (req, res) => {
 	res.json({ message: 'PDF Text Extraction Server is running!' });
@@ -117,75 +129,370 @@ app.get('/', (req, res) => {
 
 // Test endpoint to verify server connectivity
 app.get('/test', (req, res) => {
-	console.log('Test endpoint called');
 	res.json({ message: 'Server is reachable!', timestamp: new Date().toISOString() });
 });
 
-// PDF upload and text extraction endpoint
-app.post('/extract-text', upload.single('file'), async (req, res) => {
-	try {
-		if (!req.file) {
-			console.log('No file received');
-			return res.status(400).json({ error: 'No PDF file uploaded' });
+// The API contract (lib/schema.mjs) as an OpenAPI document
+const openAPIDocument = createOpenAPIDocument();
+app.get('/openapi.json', (req, res) => {
+	res.json(openAPIDocument);
+});
+
+// Pages of a camera scan are uploaded together as one receipt
+const MAX_PAGES = config.maxPages;
+// Receipts per batch request; the app sends larger batches in several requests
+const MAX_BATCH_SIZE = config.maxBatchSize;
+
+// SHA-256 of the uploaded bytes, so the app can spot a receipt uploaded twice even without
+// a reference ID. A multi-page receipt hashes its page hashes in order.
+async function hashReceipt(files) {
+	const pageHashes = [];
+	for (const file of files) {
+		const contents = await fs.promises.readFile(file.path);
+		pageHashes.push(createHash('sha256').update(contents).digest('hex'));
+	}
+	return pageHashes.length === 1
+		? pageHashes[0]
+		: createHash('sha256').update(pageHashes.join('\n')).digest('hex');
+}
+
+function removeFiles(paths) {
+	for (const filePath of paths) {
+		if (fs.existsSync(filePath)) {
+			fs.unlinkSync(filePath);
 		}
+	}
+}
 
-		console.log('Processing PDF:', req.file.filename, 'Size:', req.file.size, 'bytes');
-		console.log('File path:', req.file.path);
+// OCR and analysis of one receipt: a PDF, or one or more photos read as its pages.
+// Once analyzed, the original files are kept in receipt storage as the receipt's
+// attachments; the uploads and any preprocessed copies are deleted either way.
+// `categories` are the ones the user can pick from, for the suggested category, and
+// `ownerUid` is the user the stored files belong to.
+// `onStage` is told when each step starts, and an aborted `signal` stops before the next one.
+// The time each step took is added to `timings`, in ms.
+async function extractReceipt(files, categories, {
+	ownerUid,
+	// Per page for requests that wait for the result
+	timeoutMs = config.extractionTimeoutMs * files.length,
+	onStage = () => {},
+	signal,
+	log: receiptLog = log,
+	timings = {}
+} = {}) {
+	// Uploads plus their preprocessed copies
+	const tempPaths = files.map(file => file.path);
 
-		// Add timeout for extraction (30 seconds)
-		const extractionPromise = scribe.extractText([req.file.path]);
-		const timeoutPromise = new Promise((_, reject) =>
-			setTimeout(() => reject(new Error('Text extraction timeout')), 30000)
-		);
+	let stage = null;
+	let elapsed = null;
+	const startStage = (next) => {
+		if (stage) timings[stage] = elapsed();
+		stage = next;
+		elapsed = startTimer();
+		if (next) onStage(next);
+	};
 
-		console.log('Starting text extraction...');
-		const extractedText = await Promise.race([extractionPromise, timeoutPromise]);
+	try {
+		startStage('preprocessing');
+		const contentHash = await hashReceipt(files);
 
-		console.log('Text extraction completed successfully');
-		console.log('Extracted text length:', typeof extractedText === 'string' ? extractedText.length : 'Not a string');
+		const ocrPaths = [];
+		for (const file of files) {
+			receiptLog.debug('Processing receipt file', { mimeType: file.mimetype, size: file.size });
 
-		// Analyze the extracted text with Groq
-		console.log('Starting Groq analysis...');
-		const analysisResult = await analyzeFinancialDocument(extractedText);
-		console.log('Groq analysis completed:', analysisResult);
+			// Photos are deskewed and contrast-enhanced before OCR; PDFs go straight in
+			if (file.mimetype === 'application/pdf') {
+				ocrPaths.push(file.path);
+				continue;
+			}
 
-		// Clean up uploaded file after processing
-		fs.unlinkSync(req.file.path);
+			const processed = await preprocessImage(file);
+			tempPaths.push(processed.path);
+			ocrPaths.push(processed.path);
+			receiptLog.debug('Image preprocessed', { deskewAngle: processed.deskewAngle });
+		}
 
-		res.json({
-			success: true,
-			filename: req.file.originalname,
-			extractedText: extractedText,
-			analysis: analysisResult,
-			message: 'Text extracted and analyzed successfully'
+		// Several images are read as the pages of one document
+		signal?.throwIfAborted();
+		startStage('ocr');
+		const extractionPromise = scribe.extractText(ocrPaths);
+		let timer;
+		const timeoutPromise = new Promise((_, reject) => {
+			timer = setTimeout(() => reject(new Error('Text extraction timeout')), timeoutMs);
 		});
+		const extractedText = await Promise.race([extractionPromise, timeoutPromise]).finally(() => clearTimeout(timer));
 
-	} catch (error) {
-		console.error('Error extracting text:', error);
+		// Pull the receipt fields out of the text, falling back along the extractor chain
+		signal?.throwIfAborted();
+		startStage('analyzing');
+		const { analysis, extractor: extractorName } = await extractor.extract(extractedText, receiptLog);
+		analysis.suggestedCategory = suggestCategory({ analysis, text: extractedText, categories });
 
-		// Clean up file if it exists
-		if (req.file && fs.existsSync(req.file.path)) {
-			fs.unlinkSync(req.file.path);
+		signal?.throwIfAborted();
+		startStage('storing');
+		const attachments = [];
+		for (const file of files) {
+			attachments.push(await receiptStorage.save(file.path, { filename: file.originalname, mimeType: file.mimetype, ownerUid }));
 		}
+		startStage(null);
+
+		receiptLog.info('Receipt analyzed', {
+			pages: files.length,
+			textLength: typeof extractedText === 'string' ? extractedText.length : null,
+			extractor: extractorName,
+			fieldsFound: Object.keys(analysis.fields),
+			suggestedCategory: analysis.suggestedCategory?.id ?? null,
+			timingsMs: timings
+		});
+		// Names and reference numbers are redacted unless LOG_REDACT is off
+		receiptLog.debug('Receipt analysis', { analysis });
+
+		return { extractedText, analysis, extractor: extractorName, attachments, contentHash };
+	} finally {
+		// A failed or cancelled receipt still reports the steps it got through
+		startStage(null);
+		// Clean up uploaded files after processing
+		removeFiles(tempPaths);
+	}
+}
+
+// Why the files of one receipt upload cannot be processed, or null if they can
+function checkReceiptUpload(files) {
+	if (files.length === 0) {
+		return 'No receipt file uploaded';
+	}
+	if (files.length > 1 && files.some(file => file.mimetype === 'application/pdf')) {
+		removeFiles(files.map(file => file.path));
+		return 'Multi-page receipts must be uploaded as images';
+	}
+	return null;
+}
+
+// Answers 400 when `check(files)` finds a problem with the upload. Runs before documentQuota,
+// so files that will never be processed do not count towards the user's daily quota.
+const validateUpload = (check) => (req, res, next) => {
+	const uploadError = check(req.files || []);
+	if (uploadError) {
+		return res.status(400).json({ error: uploadError, code: 'invalid-upload' });
+	}
+	next();
+};
+
+// Response body for one analyzed receipt, also the result of a finished job
+const toReceiptResponse = (files, { extractedText, analysis, extractor: extractorName, attachments, contentHash }) => ({
+	success: true,
+	filename: files[0].originalname,
+	pages: files.length,
+	extractedText: extractedText,
+	analysis: analysis,
+	extractor: extractorName,
+	attachments: attachments,
+	contentHash: contentHash,
+	message: 'Text extracted and analyzed successfully'
+});
+
+// Receipt upload and text extraction endpoint: one PDF, or one or more photos
+app.post('/extract-text', authenticate, limitUploads, timed('upload', upload.array('file', MAX_PAGES)), validateUpload(checkReceiptUpload), documentQuota, async (req, res) => {
+	const files = req.files;
+
+	try {
+		const categories = parseCategories(req.body.categories, req.log);
+		res.json(toReceiptResponse(files, await extractReceipt(files, categories, { ownerUid: req.user.uid, log: req.log, timings: req.timings })));
+
+	} catch (error) {
+		req.log.error('Error extracting text', { error });
 
 		res.status(500).json({
-			error: 'Failed to extract text from PDF',
+			error: 'Failed to extract text from receipt',
+			code: 'extraction-failed',
 			details: error.message
 		});
 	}
 });
 
-// Error handling middleware
+// Batch endpoint: every file is a separate receipt. Receipts are processed one at a
+// time and a failed receipt does not fail the batch; each result says how it went.
+// Each receipt is logged with its position in the batch and its own timings.
+app.post('/extract-batch', authenticate, limitUploads, timed('upload', upload.array('files', MAX_BATCH_SIZE)), validateUpload(files =>
+	files.length === 0 ? 'No receipt files uploaded' : null
+), documentQuota, async (req, res) => {
+	const files = req.files;
+
+	req.log.info('Processing batch', { receipts: files.length });
+	const categories = parseCategories(req.body.categories, req.log);
+	const results = [];
+	for (const [index, file] of files.entries()) {
+		const receiptLog = req.log.child({ receipt: index });
+		try {
+			const { extractedText, analysis, extractor: extractorName, attachments, contentHash } = await extractReceipt([file], categories, { ownerUid: req.user.uid, log: receiptLog });
+			results.push({
+				success: true,
+				filename: file.originalname,
+				pages: 1,
+				extractedText,
+				analysis,
+				extractor: extractorName,
+				attachments,
+				contentHash
+			});
+		} catch (error) {
+			receiptLog.error('Error extracting text', { error });
+			results.push({
+				success: false,
+				filename: file.originalname,
+				extractedText: '',
+				error: 'Failed to extract text from receipt',
+				details: error.message
+			});
+		}
+	}
+
+	res.json({
+		success: true,
+		results,
+		message: `${results.filter(result => result.success).length} of ${results.length} receipts analyzed`
+	});
+});
+
+// Receipt jobs: the same work as /extract-text, without keeping the request open
+const receiptJobs = createJobQueue({
+	run: async ({ files, categories, ownerUid }, { signal, setStage, log: jobLog }) => {
+		const receipt = await extractReceipt(files, categories, {
+			ownerUid,
+			// Jobs are not tied to an open request, so OCR can take as long as a large scan needs
+			timeoutMs: config.jobExtractionTimeoutMs,
+			onStage: setStage,
+			signal,
+			log: jobLog
+		});
+		// Cancelled while the files were being stored
+		if (signal.aborted) {
+			for (const attachment of receipt.attachments) {
+				await receiptStorage.remove(attachment.id, ownerUid);
+			}
+			throw new Error('Job cancelled');
+		}
+		return toReceiptResponse(files, receipt);
+	},
+	// Cancelled before it started: no OCR was done, so its documents no longer count for the day
+	discard: ({ files, quotaCharge }, { log: jobLog }) => {
+		removeFiles(files.map(file => file.path));
+		if (quotaCharge) {
+			refundDailyQuota(limitStore, quotaCharge)
+				.catch(error => jobLog.error('Daily quota count could not be given back', { error }));
+		}
+	}
+});
+
+// Start processing one receipt (same fields as /extract-text); poll GET /jobs/:id for the result
+app.post('/jobs', authenticate, limitUploads, timed('upload', upload.array('file', MAX_PAGES)), validateUpload(checkReceiptUpload), documentQuota, (req, res) => {
+	const files = req.files;
+	const job = receiptJobs.submit(
+		{ files, categories: parseCategories(req.body.categories, req.log), ownerUid: req.user.uid, quotaCharge: req.quotaCharge },
+		req.user.uid,
+		{ requestId: req.id, log: req.log }
+	);
+	req.log.info('Queued job', { jobId: job.id, pages: files.length });
+	res.status(202).location(`/jobs/${job.id}`).json(job);
+});
+
+app.get('/jobs/:id', authenticate, (req, res) => {
+	const job = receiptJobs.get(req.params.id, req.user.uid);
+	if (!job) {
+		return res.status(404).json({ error: 'Job not found', code: 'not-found' });
+	}
+	res.json(job);
+});
+
+// Cancel a job that has not finished; its uploads and any stored files are removed
+app.delete('/jobs/:id', authenticate, (req, res) => {
+	const job = receiptJobs.cancel(req.params.id, req.user.uid);
+	if (!job) {
+		return res.status(404).json({ error: 'Job not found', code: 'not-found' });
+	}
+	req.log.info('Job cancel requested', { jobId: job.id, status: job.status });
+	res.json(job);
+});
+
+// A stored receipt file, shown inline by the app's receipt viewer. Only the user who uploaded
+// it can load it; to anyone else it does not exist.
+app.get('/receipts/:id', authenticateReceipt, async (req, res) => {
+	try {
+		const receipt = await receiptStorage.open(req.params.id);
+		if (!receipt || (req.user && receipt.ownerUid !== req.user.uid)) {
+			receipt?.stream.destroy();
+			return res.status(404).json({ error: 'Receipt not found', code: 'not-found' });
+		}
+
+		res.set({
+			'Content-Type': receipt.mimeType,
+			'Content-Length': receipt.size,
+			'Content-Disposition': `inline; filename="${encodeURIComponent(receipt.filename)}"`
+		});
+		receipt.stream.pipe(res);
+	} catch (error) {
+		req.log.error('Error reading receipt', { error });
+		res.status(500).json({ error: 'Failed to read receipt', code: 'internal', details: error.message });
+	}
+});
+
+// A link to a stored receipt that opens it without a token until it expires, for the browser
+app.post('/receipts/:id/link', authenticate, async (req, res) => {
+	try {
+		const receipt = await receiptStorage.find(req.params.id);
+		if (!receipt || receipt.ownerUid !== req.user.uid) {
+			return res.status(404).json({ error: 'Receipt not found', code: 'not-found' });
+		}
+		res.json(receiptLinks.create(receipt.id));
+	} catch (error) {
+		req.log.error('Error linking receipt', { error });
+		res.status(500).json({ error: 'Failed to link receipt', code: 'internal', details: error.message });
+	}
+});
+
+// Called when the expense a receipt belongs to is deleted, or the receipt is discarded unsaved.
+// Only the user who uploaded a receipt can delete it; to anyone else it does not exist.
+app.delete('/receipts/:id', authenticate, async (req, res) => {
+	try {
+		if (!(await receiptStorage.remove(req.params.id, req.user.uid))) {
+			return res.status(404).json({ error: 'Receipt not found', code: 'not-found' });
+		}
+		res.status(204).end();
+	} catch (error) {
+		req.log.error('Error deleting receipt', { error });
+		res.status(500).json({ error: 'Failed to delete receipt', code: 'internal', details: error.message });
+	}
+});
+
+// Error handling middleware; every error body is an ErrorResponse (lib/schema.mjs)
 app.use((error, req, res, next) => {
 	if (error instanceof multer.MulterError) {
 		if (error.code === 'LIMIT_FILE_SIZE') {
-			return res.status(400).json({ error: 'File too large. Maximum size is 10MB.' });
+			return res.status(400).json({ error: `File too large. Maximum size is ${config.maxUploadMB}MB.`, code: 'invalid-upload' });
+		}
+		if (error.code === 'LIMIT_UNEXPECTED_FILE') {
+			const limit = req.path === '/extract-batch'
+				? `A batch can have up to ${MAX_BATCH_SIZE} receipts.`
+				: `A receipt can have up to ${MAX_PAGES} pages.`;
+			return res.status(400).json({ error: `Too many files. ${limit}`, code: 'invalid-upload' });
 		}
 	}
+	if (error.code === 'invalid-upload') {
+		return res.status(400).json({ error: error.message, code: 'invalid-upload' });
+	}
 
-	res.status(500).json({ error: error.message });
+	req.log.error('Unhandled error', { error });
+	res.status(500).json({ error: error.message, code: 'internal' });
 });
 
-app.listen(port, () => {
-	console.log(`PDF Text Extraction Server running at http://localhost:${port}`);
+app.listen(config.port, () => {
+	log.info('PDF Text Extraction Server running', {
+		url: `http://localhost:${config.port}`,
+		extractors: extractor.names,
+		authVerifier: verifier.name,
+		limitStore: limitStore.name
+	});
+	if (verifier.name === 'local') {
+		log.warn('AUTH_VERIFIER=local does not check token signatures; use it for development only');
+	}
 });
\ No newline at end of file
@@ -0,0 +1,97 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createOpenAPIDocument } from '../lib/openapi.mjs';
+import { SCHEMAS } from '../lib/schema.mjs';
+
+/**
+ * Writes the API contract out of lib/schema.mjs: the OpenAPI document (openapi.json) and
+ * the app's TypeScript types (expensesTrackerV2/services/apiTypes.ts). Run it after
+ * changing a schema and commit both files:
+ *
+ *   npm run generate:api
+ *
+ * With --check nothing is written; it fails if either file is out of date.
+ */
+
+const backendDir = path.join(path.dirname(fileURLToPath(import.meta.url)), '..');
+const OPENAPI_FILE = path.join(backendDir, 'openapi.json');
+const TYPES_FILE = path.join(backendDir, '..', 'expensesTrackerV2', 'services', 'apiTypes.ts');
+
+const INDENT = '    ';
+
+const refName = (ref) => ref.split('/').pop();
+
+const isIdentifier = (name) => /^[A-Za-z_$][\w$]*$/.test(name);
+
+// TypeScript for a schema, with nested objects written inline
+function toType(schema, depth) {
+	if (schema.$ref) return refName(schema.$ref);
+	if (schema.oneOf) return schema.oneOf.map(option => toType(option, depth)).join(' | ');
+	if ('const' in schema) return JSON.stringify(schema.const).replace(/"/g, '\'');
+	if (schema.enum) return schema.enum.map(value => `'${value}'`).join(' | ');
+
+	const types = [schema.type].flat().map(type => {
+		switch (type) {
+			case 'string': return 'string';
+			case 'integer':
+			case 'number': return 'number';
+			case 'boolean': return 'boolean';
+			case 'null': return 'null';
+			case 'array': {
+				const items = toType(schema.items, depth);
+				return /[ |]/.test(items) ? `(${items})[]` : `${items}[]`;
+			}
+			case 'object': return toObjectType(schema, depth);
+			default: return 'unknown';
+		}
+	});
+	return types.join(' | ');
+}
+
+function toObjectType(schema, depth) {
+	const lines = toPropertyLines(schema, depth + 1);
+	return lines.length === 0 ? 'Record<string, unknown>' : `{\n${lines.join('\n')}\n${INDENT.repeat(depth)}}`;
+}
+
+function toPropertyLines(schema, depth) {
+	const indent = INDENT.repeat(depth);
+	const required = new Set(schema.required ?? []);
+	return Object.entries(schema.properties ?? {}).flatMap(([name, property]) => [
+		...(property.description ? [`${indent}// ${property.description}`] : []),
+		`${indent}${isIdentifier(name) ? name : `'${name}'`}${required.has(name) ? '' : '?'}: ${toType(property, depth)};`
+	]);
+}
+
+function toDeclaration(name, schema) {
+	const comment = schema.description ? `// ${schema.description}\n` : '';
+	if (schema.type === 'object' && schema.properties) {
+		return `${comment}export interface ${name} {\n${toPropertyLines(schema, 1).join('\n')}\n}`;
+	}
+	return `${comment}export type ${name} = ${toType(schema, 0)};`;
+}
+
+const types = [
+	'// Generated by backend/scripts/generate-api.mjs from backend/lib/schema.mjs. Do not edit;',
+	'// change the schema and run `npm run generate:api` in backend/ instead.',
+	'',
+	Object.entries(SCHEMAS).map(([name, schema]) => toDeclaration(name, schema)).join('\n\n'),
+	''
+].join('\n');
+
+const openAPI = `${JSON.stringify(createOpenAPIDocument(), null, 2)}\n`;
+
+const outputs = [[OPENAPI_FILE, openAPI], [TYPES_FILE, types]];
+
+if (process.argv.includes('--check')) {
+	const stale = outputs.filter(([file, contents]) => !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== contents);
+	for (const [file] of stale) {
+		console.error(`${path.relative(process.cwd(), file)} is out of date; run npm run generate:api`);
+	}
+	process.exit(stale.length > 0 ? 1 : 0);
+}
+
+for (const [file, contents] of outputs) {
+	fs.writeFileSync(file, contents);
+	console.log(`Wrote ${path.relative(process.cwd(), file)}`);
+}
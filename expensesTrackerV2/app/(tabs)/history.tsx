@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
     View,
     Text,
@@ -14,150 +14,85 @@ import {
     Platform
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect } from '@react-navigation/native';
-import auth from '@react-native-firebase/auth';
-import firestore from '@react-native-firebase/firestore';
+
+import { ReceiptViewer } from '@/components/ReceiptViewer';
+import { useAppData } from '@/hooks/useAppData';
+import { useCategories } from '@/hooks/useCategories';
+import { getExpenseAmountIn } from '@/services/budgets';
+import {
+    deleteExpense,
+    Expense,
+    getTransactionDateFields,
+    toTransactionDate,
+    updateExpense,
+    withHomeAmount
+} from '@/services/expenses';
+import {
+    compareMoney,
+    currencies,
+    formatMoney,
+    isPositiveMoney,
+    parseMoney,
+    sumMoney,
+    toMajorString
+} from '@/services/money';
+import { formatDateInZone, formatTimeInZone } from '@/services/periods';
+import {
+    discardSyncItem,
+    processQueue,
+    retrySyncItem,
+    SyncItem,
+    SyncStatus
+} from '@/services/syncQueue';
 
 const { width } = Dimensions.get('window');
 
-interface Expense {
-    id: string;
-    userId: string;
-    amount: number;
+const syncStatusInfo: Record<SyncStatus, { icon: string; label: string; color: string }> = {
+    pending: { icon: '⏳', label: 'Waiting to sync', color: '#8e8e93' },
+    syncing: { icon: '🔄', label: 'Syncing', color: '#4285F4' },
+    failed: { icon: '⚠️', label: 'Sync failed', color: '#ff3b30' },
+    conflict: { icon: '⚡', label: 'Sync conflict', color: '#FFA500' }
+};
+
+interface ExpenseForm {
+    amount: string;
+    currency: string;
     merchantName: string;
     referenceId: string;
     transactionDate: string;
+    // Optional "HH:MM"
+    transactionTime: string;
     description: string;
     category: string;
-    location?: {
-        latitude: number;
-        longitude: number;
-        address: string;
-        city: string;
-    };
-    createdAt: any;
-    updatedAt: any;
-}
-
-interface Category {
-    id: string;
-    name: string;
-    icon: string;
-    color?: string;
 }
 
-const defaultCategories: Category[] = [
-    { id: "food-dining", name: "Food & Dining", icon: "🍽️", color: "#FF6B6B" },
-    { id: "transportation", name: "Transportation", icon: "🚗", color: "#4ECDC4" },
-    { id: "shopping", name: "Shopping", icon: "🛍️", color: "#45B7D1" },
-    { id: "entertainment", name: "Entertainment", icon: "🎬", color: "#96CEB4" },
-    { id: "bills-utilities", name: "Bills & Utilities", icon: "📄", color: "#FFEAA7" },
-    { id: "healthcare", name: "Healthcare", icon: "❤️", color: "#DDA0DD" },
-    { id: "groceries", name: "Groceries", icon: "🛒", color: "#98D8C8" },
-    { id: "other", name: "Other", icon: "📦", color: "#A8A8A8" }
-];
-
 export default function HistoryScreen() {
-    const [expenses, setExpenses] = useState<Expense[]>([]);
+    // Live expenses, with changes still waiting in the sync queue applied
+    const { expenses, homeCurrency, exchangeRates, timeZone, loading } = useAppData();
     const [filteredExpenses, setFilteredExpenses] = useState<Expense[]>([]);
-    const [categories, setCategories] = useState<Category[]>(defaultCategories);
-    const [loading, setLoading] = useState(true);
+    const { categories, activeCategories, getCategory } = useCategories();
     const [searchText, setSearchText] = useState('');
     const [selectedCategory, setSelectedCategory] = useState('all');
     const [sortBy, setSortBy] = useState<'date' | 'amount'>('date');
     const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
     const [showFilters, setShowFilters] = useState(false);
-    const [totalSpent, setTotalSpent] = useState(0);
     const [refreshing, setRefreshing] = useState(false);
 
-    useEffect(() => {
-        const unsubscribe = auth().onAuthStateChanged((user) => {
-            if (user) {
-                loadExpenses();
-                loadCategories();
-            } else {
-                setExpenses([]);
-                setFilteredExpenses([]);
-                setTotalSpent(0);
-                setLoading(false);
-            }
-        });
+    // Edit expense state
+    const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+    const [editForm, setEditForm] = useState<ExpenseForm | null>(null);
+    const [savingEdit, setSavingEdit] = useState(false);
+    // Expense whose receipt is open in the viewer
+    const [viewingReceipt, setViewingReceipt] = useState<Expense | null>(null);
 
-        return unsubscribe;
-    }, []);
+    const totalSpent = useMemo(
+        () => sumMoney(expenses.map(expense => getExpenseAmountIn(expense, homeCurrency, exchangeRates)), homeCurrency),
+        [expenses, homeCurrency, exchangeRates]
+    );
 
     useEffect(() => {
         filterAndSortExpenses();
-    }, [expenses, searchText, selectedCategory, sortBy, sortOrder]);
-
-    // Refresh data when screen comes into focus
-    useFocusEffect(
-        useCallback(() => {
-            const currentUser = auth().currentUser;
-            if (currentUser) {
-                loadExpenses();
-                loadCategories();
-            }
-        }, [])
-    );
-
-    const loadExpenses = async () => {
-        const currentUser = auth().currentUser;
-        if (!currentUser) {
-            setLoading(false);
-            return;
-        }
-
-        try {
-            console.log('Loading expenses for user:', currentUser.uid);
-            // First, get all expenses for the user without ordering (to avoid index requirement)
-            const snapshot = await firestore()
-                .collection('expenses')
-                .where('userId', '==', currentUser.uid)
-                .get();
-
-            const expenseData = snapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            })) as Expense[];
-
-            // Sort the data in JavaScript instead of in the query
-            expenseData.sort((a, b) => {
-                const dateA = a.createdAt?.toDate?.() || new Date(a.createdAt) || new Date();
-                const dateB = b.createdAt?.toDate?.() || new Date(b.createdAt) || new Date();
-                return dateB.getTime() - dateA.getTime(); // Newest first
-            });
-
-            console.log('Loaded expenses:', expenseData.length);
-            setExpenses(expenseData);
-
-            // Calculate total spent
-            const total = expenseData.reduce((sum, expense) => sum + expense.amount, 0);
-            setTotalSpent(total);
-        } catch (error) {
-            console.error('Error loading expenses:', error);
-            Alert.alert('Error', 'Failed to load expense history');
-        } finally {
-            setLoading(false);
-        }
-    };
-
-    const loadCategories = async () => {
-        try {
-            const snapshot = await firestore().collection('categories').get();
-            if (!snapshot.empty) {
-                const categoryData = snapshot.docs.map(doc => ({
-                    id: doc.id,
-                    name: doc.data().name,
-                    icon: doc.data().icon || '📦',
-                    color: doc.data().color
-                }));
-                setCategories(categoryData);
-            }
-        } catch (error) {
-            console.error('Error loading categories:', error);
-        }
-    };
+    }, [expenses, searchText, selectedCategory, sortBy, sortOrder, homeCurrency, exchangeRates]);
 
     const filterAndSortExpenses = () => {
         let filtered = [...expenses];
@@ -181,11 +116,12 @@ export default function HistoryScreen() {
             let comparison = 0;
 
             if (sortBy === 'date') {
-                const dateA = a.createdAt?.toDate?.() || new Date(a.createdAt) || new Date();
-                const dateB = b.createdAt?.toDate?.() || new Date(b.createdAt) || new Date();
-                comparison = dateA.getTime() - dateB.getTime();
+                comparison = a.transactionDate.toMillis() - b.transactionDate.toMillis();
             } else if (sortBy === 'amount') {
-                comparison = a.amount - b.amount;
+                comparison = compareMoney(
+                    getExpenseAmountIn(a, homeCurrency, exchangeRates),
+                    getExpenseAmountIn(b, homeCurrency, exchangeRates)
+                );
             }
 
             return sortOrder === 'asc' ? comparison : -comparison;
@@ -194,11 +130,11 @@ export default function HistoryScreen() {
         setFilteredExpenses(filtered);
     };
 
+    // Expenses stay live; pulling down retries any unsynced changes
     const onRefresh = useCallback(async () => {
         setRefreshing(true);
         try {
-            await loadExpenses();
-            await loadCategories();
+            await processQueue();
         } catch (error) {
             console.error('Error refreshing data:', error);
         } finally {
@@ -206,11 +142,6 @@ export default function HistoryScreen() {
         }
     }, []);
 
-    const getCategoryInfo = (categoryId: string) => {
-        return categories.find(cat => cat.id === categoryId) ||
-            { name: 'Other', icon: '📦', color: '#A8A8A8' };
-    };
-
     const getExpenseTitle = (expense: Expense) => {
         // If description exists and is not empty, use it
         if (expense.description && expense.description.trim()) {
@@ -221,33 +152,151 @@ export default function HistoryScreen() {
         return 'No description';
     };
 
-    const formatDate = (timestamp: any) => {
+    const formatDate = (expense: Expense) => {
         try {
-            const date = timestamp?.toDate?.() || new Date(timestamp) || new Date();
-            return date.toLocaleDateString('en-MY', {
-                day: '2-digit',
-                month: 'short',
-                year: 'numeric'
-            });
+            return formatDateInZone(expense.transactionDate.toDate(), timeZone);
         } catch (error) {
             return 'Unknown date';
         }
     };
 
-    const formatTime = (timestamp: any) => {
+    // Blank when the receipt only gave a date
+    const formatTime = (expense: Expense) => {
+        if (!expense.hasTransactionTime) return '';
         try {
-            const date = timestamp?.toDate?.() || new Date(timestamp) || new Date();
-            return date.toLocaleTimeString('en-MY', {
-                hour: '2-digit',
-                minute: '2-digit'
-            });
+            return formatTimeInZone(expense.transactionDate.toDate(), timeZone);
         } catch (error) {
             return '';
         }
     };
 
+    const openEditExpense = (expense: Expense) => {
+        setEditingExpense(expense);
+        setEditForm({
+            amount: toMajorString(expense.amount),
+            currency: expense.amount.currency,
+            merchantName: expense.merchantName || '',
+            referenceId: expense.referenceId || '',
+            ...getTransactionDateFields(expense, timeZone),
+            description: expense.description || '',
+            category: expense.category || 'other'
+        });
+    };
+
+    const closeEditExpense = () => {
+        setEditingExpense(null);
+        setEditForm(null);
+    };
+
+    const saveEditedExpense = async () => {
+        if (!editingExpense || !editForm) return;
+
+        const amount = parseMoney(editForm.amount, editForm.currency);
+        if (!isPositiveMoney(amount)) {
+            Alert.alert('Error', 'Please enter a valid amount');
+            return;
+        }
+
+        if (!editForm.merchantName.trim()) {
+            Alert.alert('Error', 'Please enter the merchant name');
+            return;
+        }
+
+        const transactionDate = toTransactionDate(editForm.transactionDate, editForm.transactionTime, timeZone);
+        if (!transactionDate) {
+            Alert.alert('Error', 'Please enter the transaction date as YYYY-MM-DD and the time, if any, as HH:MM');
+            return;
+        }
+
+        setSavingEdit(true);
+        try {
+            // Keep the rate saved with the expense unless its amount or currency changed
+            const unchanged = amount.cents === editingExpense.amount.cents &&
+                amount.currency === editingExpense.amount.currency;
+            const conversion = unchanged && editingExpense.exchangeRate && editingExpense.homeAmount
+                ? { amount, exchangeRate: editingExpense.exchangeRate, homeAmount: editingExpense.homeAmount }
+                : withHomeAmount(amount, homeCurrency, exchangeRates);
+
+            await updateExpense(
+                editingExpense.id,
+                {
+                    ...conversion,
+                    merchantName: editForm.merchantName,
+                    referenceId: editForm.referenceId,
+                    ...transactionDate,
+                    description: editForm.description,
+                    category: editForm.category
+                },
+                editingExpense.updatedAt?.toMillis?.() ?? null
+            );
+            closeEditExpense();
+        } catch (error: any) {
+            console.error('Error updating expense:', error);
+            Alert.alert('Error', `Failed to update expense: ${error.message}`);
+        } finally {
+            setSavingEdit(false);
+        }
+    };
+
+    const confirmDeleteExpense = (expense: Expense) => {
+        Alert.alert(
+            'Delete Expense',
+            `Delete this ${formatMoney(expense.amount)} expense at ${expense.merchantName}? Your budgets will be updated.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deleteExpense(expense.id, expense.attachments);
+                        } catch (error) {
+                            console.error('Error deleting expense:', error);
+                            Alert.alert('Error', 'Failed to delete expense');
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const resolveSyncIssue = (item: SyncItem) => {
+        const isConflict = item.status === 'conflict';
+        Alert.alert(
+            isConflict ? 'Sync Conflict' : 'Sync Failed',
+            isConflict
+                ? `${item.lastError}. Keep your change and overwrite it, or discard your change?`
+                : `${item.lastError || 'This change could not be saved'}. Try again or discard your change?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Discard Mine', style: 'destructive', onPress: () => discardSyncItem(item.id) },
+                { text: isConflict ? 'Keep Mine' : 'Retry', onPress: () => retrySyncItem(item.id) }
+            ]
+        );
+    };
+
+    const renderSyncBadge = (item?: SyncItem) => {
+        if (!item) return null;
+
+        const info = syncStatusInfo[item.status];
+        const canResolve = item.status === 'failed' || item.status === 'conflict';
+
+        return (
+            <TouchableOpacity
+                style={styles.metaItem}
+                onPress={() => resolveSyncIssue(item)}
+                disabled={!canResolve}
+            >
+                <Text style={styles.metaIcon}>{info.icon}</Text>
+                <Text style={[styles.syncStatus, { color: info.color }]}>
+                    {canResolve ? `${info.label} • Tap to resolve` : info.label}
+                </Text>
+            </TouchableOpacity>
+        );
+    };
+
     const renderExpenseItem = (expense: Expense) => {
-        const categoryInfo = getCategoryInfo(expense.category);
+        const categoryInfo = getCategory(expense.category);
 
         return (
             <View key={expense.id} style={styles.expenseItem}>
@@ -265,8 +314,13 @@ export default function HistoryScreen() {
                         </View>
                     </View>
                     <View style={styles.amountContainer}>
-                        <Text style={styles.amount}>-RM {expense.amount.toFixed(2)}</Text>
-                        <Text style={styles.date}>{formatDate(expense.createdAt)}</Text>
+                        <Text style={styles.amount}>-{formatMoney(expense.amount)}</Text>
+                        {expense.amount.currency !== homeCurrency && (
+                            <Text style={styles.convertedAmount}>
+                                ≈ {formatMoney(getExpenseAmountIn(expense, homeCurrency, exchangeRates))}
+                            </Text>
+                        )}
+                        <Text style={styles.date}>{formatDate(expense)}</Text>
                     </View>
                 </View>
 
@@ -285,8 +339,33 @@ export default function HistoryScreen() {
                                 <Text style={styles.referenceId}>{expense.referenceId}</Text>
                             </View>
                         )}
+                        {renderSyncBadge(expense.syncItem)}
+                    </View>
+                    <View style={styles.footerRight}>
+                        <View style={styles.itemActions}>
+                            {!!expense.attachments?.length && (
+                                <TouchableOpacity
+                                    style={styles.itemActionButton}
+                                    onPress={() => setViewingReceipt(expense)}
+                                >
+                                    <Text style={styles.itemActionIcon}>📎</Text>
+                                </TouchableOpacity>
+                            )}
+                            <TouchableOpacity
+                                style={styles.itemActionButton}
+                                onPress={() => openEditExpense(expense)}
+                            >
+                                <Text style={styles.itemActionIcon}>✏️</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                style={styles.itemActionButton}
+                                onPress={() => confirmDeleteExpense(expense)}
+                            >
+                                <Text style={styles.itemActionIcon}>🗑️</Text>
+                            </TouchableOpacity>
+                        </View>
+                        <Text style={styles.time}>{formatTime(expense)}</Text>
                     </View>
-                    <Text style={styles.time}>{formatTime(expense.createdAt)}</Text>
                 </View>
             </View>
         );
@@ -378,6 +457,143 @@ export default function HistoryScreen() {
         </Modal>
     );
 
+    // Active categories, plus the expense's current one if it has since been archived
+    const getEditCategories = (currentCategory: string) => {
+        const current = categories.find(category => category.id === currentCategory);
+        return current?.archived ? [...activeCategories, current] : activeCategories;
+    };
+
+    const renderEditModal = () => (
+        <Modal
+            visible={!!editingExpense}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={closeEditExpense}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={styles.modalContent}>
+                    <View style={styles.modalHeader}>
+                        <Text style={styles.modalTitle}>Edit Expense</Text>
+                        <TouchableOpacity onPress={closeEditExpense} disabled={savingEdit}>
+                            <Text style={styles.closeButton}>✕</Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    {editForm && (
+                        <ScrollView showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                            <View style={styles.filterSection}>
+                                <Text style={styles.filterTitle}>Amount ({editForm.currency})</Text>
+                                <TextInput
+                                    style={styles.editInput}
+                                    value={editForm.amount}
+                                    onChangeText={(text) => setEditForm({ ...editForm, amount: text })}
+                                    keyboardType="numeric"
+                                    placeholder="0.00"
+                                />
+                                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.currencyFilters}>
+                                    <View style={styles.categoryFilters}>
+                                        {currencies.map(currency => (
+                                            <TouchableOpacity
+                                                key={currency.code}
+                                                style={[styles.categoryFilter, editForm.currency === currency.code && styles.selectedFilter]}
+                                                onPress={() => setEditForm({ ...editForm, currency: currency.code })}
+                                            >
+                                                <Text style={styles.categoryFilterText}>{currency.code}</Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </View>
+                                </ScrollView>
+                            </View>
+
+                            <View style={styles.filterSection}>
+                                <Text style={styles.filterTitle}>Merchant Name</Text>
+                                <TextInput
+                                    style={styles.editInput}
+                                    value={editForm.merchantName}
+                                    onChangeText={(text) => setEditForm({ ...editForm, merchantName: text })}
+                                    placeholder="Enter merchant name"
+                                />
+                            </View>
+
+                            <View style={styles.filterSection}>
+                                <Text style={styles.filterTitle}>Transaction Date</Text>
+                                <TextInput
+                                    style={styles.editInput}
+                                    value={editForm.transactionDate}
+                                    onChangeText={(text) => setEditForm({ ...editForm, transactionDate: text })}
+                                    placeholder="YYYY-MM-DD"
+                                    keyboardType="numbers-and-punctuation"
+                                />
+                            </View>
+
+                            <View style={styles.filterSection}>
+                                <Text style={styles.filterTitle}>Transaction Time (optional)</Text>
+                                <TextInput
+                                    style={styles.editInput}
+                                    value={editForm.transactionTime}
+                                    onChangeText={(text) => setEditForm({ ...editForm, transactionTime: text })}
+                                    placeholder="HH:MM"
+                                    keyboardType="numbers-and-punctuation"
+                                />
+                            </View>
+
+                            <View style={styles.filterSection}>
+                                <Text style={styles.filterTitle}>Category</Text>
+                                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                                    <View style={styles.categoryFilters}>
+                                        {getEditCategories(editForm.category).map(category => (
+                                            <TouchableOpacity
+                                                key={category.id}
+                                                style={[styles.categoryFilter, editForm.category === category.id && styles.selectedFilter]}
+                                                onPress={() => setEditForm({ ...editForm, category: category.id })}
+                                            >
+                                                <Text style={styles.categoryFilterIcon}>{category.icon}</Text>
+                                                <Text style={styles.categoryFilterText}>{category.name}</Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </View>
+                                </ScrollView>
+                            </View>
+
+                            <View style={styles.filterSection}>
+                                <Text style={styles.filterTitle}>Description</Text>
+                                <TextInput
+                                    style={styles.editInput}
+                                    value={editForm.description}
+                                    onChangeText={(text) => setEditForm({ ...editForm, description: text })}
+                                    placeholder="Add a note about this expense"
+                                    multiline
+                                />
+                            </View>
+
+                            <View style={styles.filterSection}>
+                                <Text style={styles.filterTitle}>Reference ID</Text>
+                                <TextInput
+                                    style={styles.editInput}
+                                    value={editForm.referenceId}
+                                    onChangeText={(text) => setEditForm({ ...editForm, referenceId: text })}
+                                    placeholder="Transaction reference"
+                                />
+                            </View>
+
+                            <TouchableOpacity
+                                style={[styles.applyButton, savingEdit && styles.disabledButton]}
+                                onPress={saveEditedExpense}
+                                disabled={savingEdit}
+                            >
+                                {savingEdit ? (
+                                    <ActivityIndicator color="#fff" size="small" />
+                                ) : (
+                                    <Text style={styles.applyButtonText}>Save Changes</Text>
+                                )}
+                            </TouchableOpacity>
+                        </ScrollView>
+                    )}
+                </View>
+            </View>
+        </Modal>
+    );
+
     if (loading) {
         return (
             <SafeAreaView style={styles.container} edges={['top', 'right', 'left']}>
@@ -394,7 +610,7 @@ export default function HistoryScreen() {
             <View style={styles.header}>
                 <Text style={styles.title}>💰 Expense History</Text>
                 <Text style={styles.subtitle}>
-                    Total: RM {totalSpent.toFixed(2)} • {filteredExpenses.length} transactions
+                    Total: {formatMoney(totalSpent)} • {filteredExpenses.length} transactions
                 </Text>
             </View>
 
@@ -444,6 +660,12 @@ export default function HistoryScreen() {
             </ScrollView>
 
             {renderFilterModal()}
+            {renderEditModal()}
+            <ReceiptViewer
+                attachments={viewingReceipt?.attachments || null}
+                title={viewingReceipt?.merchantName || 'Receipt'}
+                onClose={() => setViewingReceipt(null)}
+            />
         </SafeAreaView>
     );
 }
@@ -582,6 +804,11 @@ const styles = StyleSheet.create({
         marginBottom: 4,
         letterSpacing: -0.5,
     },
+    convertedAmount: {
+        fontSize: 12,
+        color: '#8e8e93',
+        marginBottom: 4,
+    },
     date: {
         fontSize: 11,
         color: '#8e8e93',
@@ -632,6 +859,24 @@ const styles = StyleSheet.create({
         color: '#8e8e93',
         fontWeight: '500',
     },
+    footerRight: {
+        alignItems: 'flex-end',
+        gap: 8,
+    },
+    itemActions: {
+        flexDirection: 'row',
+        gap: 4,
+    },
+    itemActionButton: {
+        padding: 4,
+    },
+    itemActionIcon: {
+        fontSize: 16,
+    },
+    syncStatus: {
+        fontSize: 12,
+        fontWeight: '500',
+    },
     time: {
         fontSize: 11,
         color: '#8e8e93',
@@ -698,6 +943,9 @@ const styles = StyleSheet.create({
         flexDirection: 'row',
         gap: 8,
     },
+    currencyFilters: {
+        marginTop: 12,
+    },
     categoryFilter: {
         flexDirection: 'row',
         alignItems: 'center',
@@ -750,6 +998,18 @@ const styles = StyleSheet.create({
         alignItems: 'center',
         marginTop: 12,
     },
+    disabledButton: {
+        opacity: 0.6,
+    },
+    editInput: {
+        borderWidth: 1,
+        borderColor: '#e9ecef',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        paddingVertical: 12,
+        fontSize: 16,
+        backgroundColor: '#f8f9fa',
+    },
     applyButtonText: {
         fontSize: 16,
         fontWeight: 'bold',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useCallback, useContext, useMemo } from 'react';
 import {
     View,
     Text,
@@ -13,60 +13,42 @@ import {
     RefreshControl
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect } from '@react-navigation/native';
-import auth from '@react-native-firebase/auth';
-import firestore from '@react-native-firebase/firestore';
 
-const { width } = Dimensions.get('window');
-
-interface Budget {
-    id: string;
-    userId: string;
-    category: string;
-    budgetType: 'daily' | 'weekly' | 'monthly';
-    budgetAmount: number;
-    currentPeriod: string;
-    currentSpent: number;
-    isActive: boolean;
-    createdAt: any;
-    updatedAt: any;
-}
-
-interface Category {
-    id: string;
-    name: string;
-    icon: string;
-    color?: string;
-}
-
-interface UserPreferences {
-    overspendingAlerts: number;
-}
+import { AuthContext } from '../_layout';
+import { useAppData } from '@/hooks/useAppData';
+import { useCategories } from '@/hooks/useCategories';
+import {
+    BudgetType,
+    calculateBudgetSpending,
+    deactivateBudget,
+    calculateMonthlySpending,
+    saveBudget as queueBudgetSave
+} from '@/services/budgets';
+import { formatMoney, isPositiveMoney, moneyRatio, parseMoney, subtractMoney, toMajorString } from '@/services/money';
+import { updateOverspendingLimit } from '@/services/preferences';
+import { processQueue } from '@/services/syncQueue';
 
-const defaultCategories: Category[] = [
-    { id: "food-dining", name: "Food & Dining", icon: "🍽️", color: "#FF6B6B" },
-    { id: "transportation", name: "Transportation", icon: "🚗", color: "#4ECDC4" },
-    { id: "shopping", name: "Shopping", icon: "🛍️", color: "#45B7D1" },
-    { id: "entertainment", name: "Entertainment", icon: "🎬", color: "#96CEB4" },
-    { id: "bills-utilities", name: "Bills & Utilities", icon: "📄", color: "#FFEAA7" },
-    { id: "healthcare", name: "Healthcare", icon: "❤️", color: "#DDA0DD" },
-    { id: "groceries", name: "Groceries", icon: "🛒", color: "#98D8C8" },
-    { id: "other", name: "Other", icon: "📦", color: "#A8A8A8" }
-];
+const { width } = Dimensions.get('window');
 
 export default function HomeScreen() {
-    const [user, setUser] = useState(auth().currentUser);
-    const [budgets, setBudgets] = useState<Budget[]>([]);
-    const [categories, setCategories] = useState<Category[]>(defaultCategories);
-    const [loading, setLoading] = useState(true);
+    const { user } = useContext(AuthContext);
+    const { expenses, activeBudgets, preferences, homeCurrency, exchangeRates, timeZone, loading } = useAppData();
+    const { activeCategories, getCategory } = useCategories();
     const [showBudgetModal, setShowBudgetModal] = useState(false);
     const [showOverspendingModal, setShowOverspendingModal] = useState(false);
-    const [userPreferences, setUserPreferences] = useState<UserPreferences>({ overspendingAlerts: 1000 });
-    const [monthlySpent, setMonthlySpent] = useState(0);
+
+    // Budget progress and monthly spending are both derived from the user's expenses
+    const overspendingAlerts = preferences.notifications.overspendingAlerts;
+    // Expenses in other currencies are converted to the limit's currency
+    const monthlySpent = useMemo(
+        () => calculateMonthlySpending(expenses, overspendingAlerts.currency, exchangeRates, timeZone),
+        [expenses, overspendingAlerts.currency, exchangeRates, timeZone]
+    );
+    const monthlyPercentage = moneyRatio(monthlySpent, overspendingAlerts) * 100;
 
     // Budget form state
     const [selectedCategory, setSelectedCategory] = useState('');
-    const [budgetType, setBudgetType] = useState<'daily' | 'weekly' | 'monthly'>('monthly');
+    const [budgetType, setBudgetType] = useState<BudgetType>('monthly');
     const [budgetAmount, setBudgetAmount] = useState('');
     const [saving, setSaving] = useState(false);
 
@@ -74,224 +56,36 @@ export default function HomeScreen() {
     const [overspendingLimit, setOverspendingLimit] = useState('1000');
     const [refreshing, setRefreshing] = useState(false);
 
-    useEffect(() => {
-        const unsubscribe = auth().onAuthStateChanged((user) => {
-            console.log('Auth state changed:', user?.uid || 'No user');
-            setUser(user);
-
-            if (user) {
-                // Reset all state when user changes
-                setBudgets([]);
-                setMonthlySpent(0);
-                setUserPreferences({ overspendingAlerts: 1000 });
-
-                // Load new user's data
-                loadUserData();
-            } else {
-                setLoading(false);
-                // Clear all data when user logs out
-                setBudgets([]);
-                setMonthlySpent(0);
-                setUserPreferences({ overspendingAlerts: 1000 });
-            }
-        });
-
-        return unsubscribe;
-    }, []);
-
-    // Refresh data when screen comes into focus
-    useFocusEffect(
-        useCallback(() => {
-            const currentUser = auth().currentUser;
-            if (currentUser) {
-                loadUserData();
-            }
-        }, [])
-    );
-
-    const loadUserData = async () => {
-        const currentUser = auth().currentUser;
-        if (!currentUser) {
-            console.log('No authenticated user for loadUserData');
-            setLoading(false);
-            return;
-        }
-
-        console.log('Loading data for user:', currentUser.uid);
-        setLoading(true);
-        try {
-            await Promise.all([
-                loadBudgets(),
-                loadCategories(),
-                loadUserPreferences(),
-                loadMonthlySpending()
-            ]);
-        } catch (error) {
-            console.error('Error loading user data:', error);
-        } finally {
-            setLoading(false);
-        }
-    };
-
-    const loadBudgets = async () => {
-        const currentUser = auth().currentUser;
-        if (!currentUser) return;
-
-        try {
-            const snapshot = await firestore()
-                .collection('budgets')
-                .where('userId', '==', currentUser.uid)
-                .where('isActive', '==', true)
-                .get();
-
-            const budgetData = snapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            })) as Budget[];
-
-            setBudgets(budgetData);
-        } catch (error) {
-            console.error('Error loading budgets:', error);
-        }
-    };
-
-    const loadCategories = async () => {
-        try {
-            const snapshot = await firestore().collection('categories').get();
-            if (!snapshot.empty) {
-                const categoryData = snapshot.docs.map(doc => ({
-                    id: doc.id,
-                    name: doc.data().name,
-                    icon: doc.data().icon || '📦',
-                    color: doc.data().color
-                }));
-                setCategories(categoryData);
-            }
-        } catch (error) {
-            console.error('Error loading categories:', error);
-        }
-    };
-
-    const loadUserPreferences = async () => {
-        const currentUser = auth().currentUser;
-        if (!currentUser) return;
-
-        try {
-            const doc = await firestore().collection('users').doc(currentUser.uid).get();
-            if (doc.exists()) {
-                const userData = doc.data();
-                if (userData?.preferences?.notifications?.overspendingAlerts) {
-                    setUserPreferences({
-                        overspendingAlerts: userData.preferences.notifications.overspendingAlerts
-                    });
-                    setOverspendingLimit(userData.preferences.notifications.overspendingAlerts.toString());
-                }
-            }
-        } catch (error) {
-            console.error('Error loading user preferences:', error);
-        }
-    };
-
-    const loadMonthlySpending = async () => {
-        const currentUser = auth().currentUser;
-        if (!currentUser) {
-            console.log('No authenticated user for monthly spending');
-            setMonthlySpent(0);
-            return;
-        }
-
-        try {
-            console.log('Loading monthly spending for user:', currentUser.uid);
-
-            // Get all user expenses (simple query - no date range filter)
-            const expensesSnapshot = await firestore()
-                .collection('expenses')
-                .where('userId', '==', currentUser.uid)
-                .get();
-
-            console.log('Found expenses:', expensesSnapshot.docs.length);
-
-            // Filter by current month in client-side
-            const now = new Date();
-            const currentMonth = now.getMonth();
-            const currentYear = now.getFullYear();
-
-            let totalMonthlySpent = 0;
-            expensesSnapshot.docs.forEach(doc => {
-                const expenseData = doc.data();
-                const expenseDate = expenseData.createdAt?.toDate() || new Date(expenseData.transactionDate);
-
-                // Check if expense is from current month
-                if (expenseDate.getMonth() === currentMonth && expenseDate.getFullYear() === currentYear) {
-                    totalMonthlySpent += expenseData.amount || 0;
-                }
-            });
-
-            console.log('Total monthly spent:', totalMonthlySpent);
-            setMonthlySpent(totalMonthlySpent);
-        } catch (error) {
-            console.error('Error loading monthly spending:', error);
-            // Set to 0 on error to prevent UI issues
-            setMonthlySpent(0);
-        }
-    };
-
-    const getCurrentPeriod = (type: 'daily' | 'weekly' | 'monthly'): string => {
-        const now = new Date();
-        switch (type) {
-            case 'daily':
-                return now.toISOString().split('T')[0];
-            case 'weekly':
-                const startOfYear = new Date(now.getFullYear(), 0, 1);
-                const days = Math.floor((now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-                const weekNumber = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-                return `${now.getFullYear()}-W${weekNumber.toString().padStart(2, '0')}`;
-            case 'monthly':
-                return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
-            default:
-                return '';
-        }
-    };
-
     const saveBudget = async () => {
-        if (!user || !selectedCategory || !budgetAmount || parseFloat(budgetAmount) <= 0) {
+        const amount = parseMoney(budgetAmount, homeCurrency);
+        if (!user || !selectedCategory || !isPositiveMoney(amount)) {
             Alert.alert('Error', 'Please fill in all fields with valid values');
             return;
         }
 
         setSaving(true);
         try {
-            const currentPeriod = getCurrentPeriod(budgetType);
-
             // Check if budget already exists for this category
-            const existingBudget = budgets.find(b => b.category === selectedCategory && b.budgetType === budgetType);
+            const existingBudget = activeBudgets.find(b => b.category === selectedCategory && b.budgetType === budgetType);
 
             if (existingBudget) {
                 // Update existing budget
-                await firestore().collection('budgets').doc(existingBudget.id).update({
-                    budgetAmount: parseFloat(budgetAmount),
-                    currentPeriod,
-                    updatedAt: firestore.FieldValue.serverTimestamp()
+                await queueBudgetSave(existingBudget.id, {
+                    budgetAmount: amount
                 });
             } else {
                 // Create new budget
-                await firestore().collection('budgets').add({
-                    userId: user.uid,
+                await queueBudgetSave(null, {
                     category: selectedCategory,
                     budgetType,
-                    budgetAmount: parseFloat(budgetAmount),
-                    currentPeriod,
-                    currentSpent: 0,
-                    isActive: true,
-                    createdAt: firestore.FieldValue.serverTimestamp(),
-                    updatedAt: firestore.FieldValue.serverTimestamp()
+                    budgetAmount: amount,
+                    isActive: true
                 });
             }
 
             Alert.alert('Success', 'Budget saved successfully!');
             setShowBudgetModal(false);
             resetBudgetForm();
-            loadBudgets();
         } catch (error: any) {
             console.error('Error saving budget:', error);
             Alert.alert('Error', `Failed to save budget: ${error.message}`);
@@ -301,19 +95,15 @@ export default function HomeScreen() {
     };
 
     const saveOverspendingLimit = async () => {
-        if (!user || !overspendingLimit || parseFloat(overspendingLimit) <= 0) {
+        const limit = parseMoney(overspendingLimit, homeCurrency);
+        if (!user || !isPositiveMoney(limit)) {
             Alert.alert('Error', 'Please enter a valid amount');
             return;
         }
 
         setSaving(true);
         try {
-            await firestore().collection('users').doc(user.uid).update({
-                'preferences.notifications.overspendingAlerts': parseFloat(overspendingLimit),
-                updatedAt: firestore.FieldValue.serverTimestamp()
-            });
-
-            setUserPreferences({ overspendingAlerts: parseFloat(overspendingLimit) });
+            await updateOverspendingLimit(user.uid, limit);
             Alert.alert('Success', 'Overspending limit updated successfully!');
             setShowOverspendingModal(false);
         } catch (error: any) {
@@ -341,11 +131,7 @@ export default function HomeScreen() {
                     style: 'destructive',
                     onPress: async () => {
                         try {
-                            await firestore().collection('budgets').doc(budgetId).update({
-                                isActive: false,
-                                updatedAt: firestore.FieldValue.serverTimestamp()
-                            });
-                            loadBudgets();
+                            await deactivateBudget(budgetId);
                         } catch (error) {
                             console.error('Error deleting budget:', error);
                             Alert.alert('Error', 'Failed to delete budget');
@@ -356,8 +142,7 @@ export default function HomeScreen() {
         );
     };
 
-    const getProgressColor = (spent: number, budget: number) => {
-        const percentage = (spent / budget) * 100;
+    const getProgressColor = (percentage: number) => {
         if (percentage >= 100) return '#FF6B6B';
         if (percentage >= 75) return '#FFA500';
         return '#34C759';
@@ -372,10 +157,11 @@ export default function HomeScreen() {
         }
     };
 
+    // Data stays live through the app data provider; pulling down retries any unsynced changes
     const onRefresh = useCallback(async () => {
         setRefreshing(true);
         try {
-            await loadUserData();
+            await processQueue();
         } catch (error) {
             console.error('Error refreshing data:', error);
         } finally {
@@ -434,7 +220,10 @@ export default function HomeScreen() {
                         <Text style={styles.overspendingTitle}>🚨 Monthly Spending Alert</Text>
                         <TouchableOpacity
                             style={styles.editButton}
-                            onPress={() => setShowOverspendingModal(true)}
+                            onPress={() => {
+                                setOverspendingLimit(toMajorString(overspendingAlerts));
+                                setShowOverspendingModal(true);
+                            }}
                         >
                             <Text style={styles.editIcon}>✏️</Text>
                         </TouchableOpacity>
@@ -442,10 +231,10 @@ export default function HomeScreen() {
 
                     <View style={styles.overspendingAmount}>
                         <Text style={styles.currentSpent}>
-                            RM {monthlySpent.toFixed(2)}
+                            {formatMoney(monthlySpent)}
                         </Text>
                         <Text style={styles.totalLimit}>
-                            / RM {userPreferences.overspendingAlerts.toFixed(2)}
+                            / {formatMoney(overspendingAlerts)}
                         </Text>
                     </View>
 
@@ -455,18 +244,18 @@ export default function HomeScreen() {
                                 style={[
                                     styles.progressFill,
                                     {
-                                        width: `${Math.min((monthlySpent / userPreferences.overspendingAlerts) * 100, 100)}%`,
-                                        backgroundColor: getProgressColor(monthlySpent, userPreferences.overspendingAlerts)
+                                        width: `${Math.min(monthlyPercentage, 100)}%`,
+                                        backgroundColor: getProgressColor(monthlyPercentage)
                                     }
                                 ]}
                             />
                         </View>
                         <Text style={styles.progressText}>
-                            {((monthlySpent / userPreferences.overspendingAlerts) * 100).toFixed(1)}%
+                            {monthlyPercentage.toFixed(1)}%
                         </Text>
                     </View>
 
-                    {monthlySpent >= userPreferences.overspendingAlerts && (
+                    {monthlyPercentage >= 100 && (
                         <View style={styles.warningBanner}>
                             <Text style={styles.warningText}>
                                 ⚠️ Monthly spending limit exceeded!
@@ -475,11 +264,11 @@ export default function HomeScreen() {
                     )}
 
                     <Text style={styles.overspendingLabel}>
-                        {monthlySpent >= userPreferences.overspendingAlerts
-                            ? `🚨 Exceeded by RM${(monthlySpent - userPreferences.overspendingAlerts).toFixed(2)}`
-                            : monthlySpent >= userPreferences.overspendingAlerts * 0.9
-                                ? `⚠️ Close to limit! RM${(userPreferences.overspendingAlerts - monthlySpent).toFixed(2)} remaining`
-                                : `RM${(userPreferences.overspendingAlerts - monthlySpent).toFixed(2)} remaining this month`
+                        {monthlyPercentage >= 100
+                            ? `🚨 Exceeded by ${formatMoney(subtractMoney(monthlySpent, overspendingAlerts))}`
+                            : monthlyPercentage >= 90
+                                ? `⚠️ Close to limit! ${formatMoney(subtractMoney(overspendingAlerts, monthlySpent))} remaining`
+                                : `${formatMoney(subtractMoney(overspendingAlerts, monthlySpent))} remaining this month`
                         }
                     </Text>
                 </View>
@@ -498,7 +287,7 @@ export default function HomeScreen() {
                 <View style={styles.budgetsContainer}>
                     <Text style={styles.sectionTitle}>Your Budgets</Text>
 
-                    {budgets.length === 0 ? (
+                    {activeBudgets.length === 0 ? (
                         <View style={styles.emptyState}>
                             <Text style={styles.emptyStateIcon}>📊</Text>
                             <Text style={styles.emptyStateTitle}>No budgets yet</Text>
@@ -507,17 +296,18 @@ export default function HomeScreen() {
                             </Text>
                         </View>
                     ) : (
-                        budgets.map((budget) => {
-                            const category = categories.find(c => c.id === budget.category);
-                            const progressPercentage = (budget.currentSpent / budget.budgetAmount) * 100;
-                            const progressColor = getProgressColor(budget.currentSpent, budget.budgetAmount);
+                        activeBudgets.map((budget) => {
+                            const category = getCategory(budget.category);
+                            const spent = calculateBudgetSpending(budget, expenses, exchangeRates, timeZone);
+                            const progressPercentage = moneyRatio(spent, budget.budgetAmount) * 100;
+                            const progressColor = getProgressColor(progressPercentage);
 
                             return (
                                 <View key={budget.id} style={styles.budgetCard}>
                                     <View style={styles.budgetHeader}>
                                         <View style={styles.budgetInfo}>
                                             <Text style={styles.budgetCategory}>
-                                                {category?.icon} {category?.name || budget.category}
+                                                {category.icon} {category.name}
                                             </Text>
                                             <Text style={styles.budgetType}>
                                                 {getBudgetTypeIcon(budget.budgetType)} {budget.budgetType}
@@ -533,10 +323,10 @@ export default function HomeScreen() {
 
                                     <View style={styles.budgetAmount}>
                                         <Text style={styles.spentAmount}>
-                                            RM {budget.currentSpent.toFixed(2)}
+                                            {formatMoney(spent)}
                                         </Text>
                                         <Text style={styles.totalAmount}>
-                                            / RM {budget.budgetAmount.toFixed(2)}
+                                            / {formatMoney(budget.budgetAmount)}
                                         </Text>
                                     </View>
 
@@ -594,7 +384,7 @@ export default function HomeScreen() {
                         <View style={styles.formSection}>
                             <Text style={styles.formLabel}>Category</Text>
                             <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-                                {categories.map((category) => (
+                                {activeCategories.map((category) => (
                                     <TouchableOpacity
                                         key={category.id}
                                         style={[
@@ -644,7 +434,7 @@ export default function HomeScreen() {
 
                         {/* Budget Amount */}
                         <View style={styles.formSection}>
-                            <Text style={styles.formLabel}>Budget Amount (MYR)</Text>
+                            <Text style={styles.formLabel}>Budget Amount ({homeCurrency})</Text>
                             <TextInput
                                 style={styles.amountInput}
                                 value={budgetAmount}
@@ -694,7 +484,7 @@ export default function HomeScreen() {
                         </Text>
 
                         <View style={styles.formSection}>
-                            <Text style={styles.formLabel}>Monthly Limit (MYR)</Text>
+                            <Text style={styles.formLabel}>Monthly Limit ({homeCurrency})</Text>
                             <TextInput
                                 style={styles.amountInput}
                                 value={overspendingLimit}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
     StyleSheet,
     Text,
@@ -14,9 +14,80 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import * as DocumentPicker from 'expo-document-picker';
+import * as ImagePicker from 'expo-image-picker';
 import * as Location from 'expo-location';
 import auth from '@react-native-firebase/auth';
-import firestore from '@react-native-firebase/firestore';
+
+import { ReceiptScanner } from '@/components/ReceiptScanner';
+import { useAppData } from '@/hooks/useAppData';
+import { useCategories } from '@/hooks/useCategories';
+import { calculateBudgetSpending, calculateMonthlySpending } from '@/services/budgets';
+import { suggestCategory } from '@/services/categorySuggestions';
+import {
+    DRAFT_FIELD_SOURCES,
+    draftFromAnalysis,
+    emptyDraft,
+    ExpenseDraft,
+    validateDraft
+} from '@/services/expenseDrafts';
+import {
+    duplicateReasonText,
+    ExpenseFingerprint,
+    findDuplicateExpense,
+    getDuplicateReason,
+    SuspectedDuplicate
+} from '@/services/duplicates';
+import { createExpense, Expense, mergeIntoExpense, withHomeAmount } from '@/services/expenses';
+import {
+    currencies,
+    DEFAULT_CURRENCY,
+    formatMoney,
+    isPositiveMoney,
+    Money,
+    moneyRatio,
+    parseMoney
+} from '@/services/money';
+import {
+    AnalyzedReceipt,
+    cancelReceiptJob,
+    CategorySuggestion,
+    deleteReceiptAttachments,
+    describeOCRLimit,
+    extractReceiptBatch,
+    getLowConfidence,
+    getOCRLimit,
+    getOCRRequestId,
+    getReceiptName,
+    isOCRUnauthorized,
+    isOCRUnreachable,
+    MAX_BATCH_SIZE,
+    MAX_RECEIPT_SIZE,
+    OCRAnalysisResult,
+    OCRLimit,
+    OCRResponse,
+    RECEIPT_MIME_TYPES,
+    ReceiptAttachment,
+    ReceiptFile,
+    ReceiptJob,
+    receiptJobStageText,
+    submitReceiptJob,
+    withRequestId
+} from '@/services/ocr';
+import { formatCalendarDay, formatDateInZone, getToday } from '@/services/periods';
+import {
+    clearActiveReceiptJob,
+    loadActiveReceiptJob,
+    pollReceiptJob,
+    saveActiveReceiptJob
+} from '@/services/receiptJobs';
+import {
+    addProcessedReceipts,
+    isOnline,
+    ProcessedReceipt,
+    queueReceiptUpload,
+    removeProcessedReceipt,
+    subscribeToProcessedReceipts
+} from '@/services/syncQueue';
 
 const { width } = Dimensions.get('window');
 
@@ -32,78 +103,63 @@ interface LocationData {
     country?: string;
 }
 
-interface OCRAnalysisResult {
-    referenceId?: string;
-    date?: string;
-    time?: string;
-    beneficiaryName?: string;
-    amount?: string;
-}
+type EntryMode = 'ocr' | 'manual';
 
-interface ExpenseData {
-    amount: number;
-    merchantName: string;
-    referenceId: string;
-    transactionDate: string;
-    description: string;
-    category: string;
-}
-
-// Default categories for selection
-const defaultCategories = [
-    { id: "food-dining", name: "Food & Dining", icon: "🍽️" },
-    { id: "transportation", name: "Transportation", icon: "🚗" },
-    { id: "shopping", name: "Shopping", icon: "🛍️" },
-    { id: "entertainment", name: "Entertainment", icon: "🎬" },
-    { id: "bills-utilities", name: "Bills & Utilities", icon: "📄" },
-    { id: "healthcare", name: "Healthcare", icon: "❤️" },
-    { id: "groceries", name: "Groceries", icon: "🛒" },
-    { id: "other", name: "Other", icon: "📦" }
-];
+// The backend rejected the user's ID token, e.g. the account was disabled or signed out elsewhere
+const alertSignInRequired = (error: unknown) => {
+    Alert.alert('Sign-in Required', withRequestId(
+        'The receipt service could not confirm your sign-in. Please sign out, sign in again and retry.',
+        getOCRRequestId(error)
+    ));
+};
 
 export default function OCRScreen() {
     const [extractedText, setExtractedText] = useState('');
     const [analysisResult, setAnalysisResult] = useState<OCRAnalysisResult | null>(null);
+    // Stored copies of the receipt being confirmed, linked from the saved expense
+    const [attachments, setAttachments] = useState<ReceiptAttachment[]>([]);
+    const [contentHash, setContentHash] = useState('');
     const [loading, setLoading] = useState(false);
     const [location, setLocation] = useState<LocationData | null>(null);
     const [locationLoading, setLocationLoading] = useState(false);
     const [saving, setSaving] = useState(false);
     const [showConfirmation, setShowConfirmation] = useState(false);
+    const [entryMode, setEntryMode] = useState<EntryMode>('ocr');
+    const [processedReceipts, setProcessedReceipts] = useState<ProcessedReceipt[]>([]);
+    const [scannerVisible, setScannerVisible] = useState(false);
+    // Receipts sent so far while a batch upload runs
+    const [batchProgress, setBatchProgress] = useState<{ done: number; total: number } | null>(null);
+    const [savingAll, setSavingAll] = useState(false);
+    // Processed receipt currently open in the confirmation form, removed once saved
+    const [reviewingReceiptId, setReviewingReceiptId] = useState<string | null>(null);
+    // Backend job for the receipt being processed, as last polled
+    const [receiptJob, setReceiptJob] = useState<ReceiptJob | null>(null);
+    // Job being polled; polling stops once this changes
+    const followedJobIdRef = useRef<string | null>(null);
 
     // Form data for expense confirmation
-    const [expenseData, setExpenseData] = useState<ExpenseData>({
-        amount: 0,
-        merchantName: '',
-        referenceId: '',
-        transactionDate: '',
-        description: '',
-        category: 'other'
-    });
-
-    const [categories, setCategories] = useState(defaultCategories);
-
-    // Load categories from Firestore
+    const [expenseData, setExpenseData] = useState<ExpenseDraft>(emptyDraft(DEFAULT_CURRENCY));
+    // Pre-filled fields the user has edited, which no longer need a low-confidence highlight
+    const [reviewedFields, setReviewedFields] = useState<(keyof ExpenseDraft)[]>([]);
+    // Why the preselected category was picked, shown while it stays selected
+    const [categorySuggestion, setCategorySuggestion] = useState<CategorySuggestion | null>(null);
+
+    const { activeCategories, getCategory } = useCategories();
+    const appData = useAppData();
+    const queuedReceiptCount = appData.syncItems.filter(item => item.operation.type === 'processReceipt').length;
+    // Alerts run after a save settles, so they read the latest shared data through a ref
+    const appDataRef = useRef(appData);
+    appDataRef.current = appData;
+
     useEffect(() => {
-        loadCategories();
         // Automatically get location when screen loads
         getCurrentLocation();
     }, []);
 
-    const loadCategories = async () => {
-        try {
-            const snapshot = await firestore().collection('categories').get();
-            if (!snapshot.empty) {
-                const loadedCategories = snapshot.docs.map(doc => ({
-                    id: doc.id,
-                    name: doc.data().name,
-                    icon: doc.data().icon || '📦'
-                }));
-                setCategories(loadedCategories);
-            }
-        } catch (error) {
-            console.error('Error loading categories:', error);
-        }
-    };
+    useEffect(() => subscribeToProcessedReceipts(receipts => {
+        const user = auth().currentUser;
+        setProcessedReceipts(receipts.filter(receipt => receipt.userId === user?.uid));
+    }), []);
 
     const getCurrentLocation = async () => {
         setLocationLoading(true);
@@ -158,23 +214,41 @@ export default function OCRScreen() {
         }
     };
 
+    // Files over the upload limit are left out with a warning
+    const withinSizeLimit = <T extends { size?: number | null; fileSize?: number }>(assets: T[]) => {
+        const accepted = assets.filter(asset => (asset.size ?? asset.fileSize ?? 0) <= MAX_RECEIPT_SIZE);
+        if (accepted.length < assets.length) {
+            const skipped = assets.length - accepted.length;
+            Alert.alert('File Too Large', `${skipped} file${skipped === 1 ? ' is' : 's are'} over 10MB and ${skipped === 1 ? 'was' : 'were'} skipped.`);
+        }
+        return accepted;
+    };
+
+    // One file opens the confirmation form; several go through the batch review queue
+    const processPickedFiles = (files: ReceiptFile[]) => {
+        if (files.length === 1) {
+            processFile(files);
+        } else if (files.length > 1) {
+            processBatch(files);
+        }
+    };
+
     const pickDocument = async () => {
         try {
             const result = await DocumentPicker.getDocumentAsync({
-                type: 'application/pdf',
+                type: RECEIPT_MIME_TYPES,
                 copyToCacheDirectory: true,
+                multiple: true,
             });
 
             if (!result.canceled && result.assets && result.assets.length > 0) {
-                const file = result.assets[0];
-                console.log('File selected:', file.name, 'Size:', file.size);
+                console.log('Files selected:', result.assets.map(file => `${file.name} (${file.size} bytes)`).join(', '));
 
-                if (file.size && file.size > 10 * 1024 * 1024) {
-                    Alert.alert('File Too Large', 'Please select a PDF file smaller than 10MB.');
-                    return;
-                }
-
-                processFile(file);
+                processPickedFiles(withinSizeLimit(result.assets).map(file => ({
+                    uri: file.uri,
+                    name: file.name,
+                    mimeType: file.mimeType || 'application/pdf'
+                })));
             }
         } catch (error) {
             console.error('Error picking document:', error);
@@ -182,218 +256,476 @@ export default function OCRScreen() {
         }
     };
 
-    const processFile = async (file: any) => {
+    // Photos of paper receipts; the backend straightens and enhances them before OCR
+    const pickPhoto = async () => {
+        try {
+            const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+            if (status !== 'granted') {
+                Alert.alert('Permission Denied', 'Allow photo library access to upload receipt photos.');
+                return;
+            }
+
+            const result = await ImagePicker.launchImageLibraryAsync({
+                mediaTypes: ['images'],
+                quality: 1,
+                allowsMultipleSelection: true,
+            });
+
+            if (!result.canceled && result.assets && result.assets.length > 0) {
+                console.log('Photos selected:', result.assets.map(photo => `${photo.fileName} (${photo.fileSize} bytes)`).join(', '));
+
+                processPickedFiles(withinSizeLimit(result.assets).map((photo, index) => ({
+                    uri: photo.uri,
+                    name: photo.fileName || `receipt-${Date.now()}-${index + 1}.jpg`,
+                    mimeType: photo.mimeType || 'image/jpeg'
+                })));
+            }
+        } catch (error) {
+            console.error('Error picking photo:', error);
+            Alert.alert('Error', 'Failed to pick photo. Please try again.');
+        }
+    };
+
+    const withSuggestedCategory = (draft: ExpenseDraft, suggestion: CategorySuggestion | null) =>
+        suggestion ? { ...draft, category: suggestion.id } : draft;
+
+    // Pre-populate the confirmation form from an OCR response
+    const showExtractedData = (data: AnalyzedReceipt) => {
+        setExtractedText(data.extractedText);
+        setAttachments(data.attachments || []);
+        setContentHash(data.contentHash || '');
+        setReviewedFields([]);
+        setEntryMode('ocr');
+
+        // Results of background jobs can arrive long after the upload, so read the latest data
+        const { expenses, homeCurrency, timeZone } = appDataRef.current;
+        const suggestion = suggestCategory(data.analysis, expenses, activeCategories);
+        setAnalysisResult(data.analysis);
+        setCategorySuggestion(suggestion);
+        setExpenseData(withSuggestedCategory(draftFromAnalysis(data.analysis, homeCurrency, timeZone), suggestion));
+
+        setShowConfirmation(true);
+
+        // Auto-get location if not already available
+        if (!location) {
+            getCurrentLocation();
+        }
+    };
+
+    // A job's result can arrive long after it was started, so it is shown with the latest state
+    const showExtractedDataRef = useRef(showExtractedData);
+    showExtractedDataRef.current = showExtractedData;
+
+    // Pages captured with the in-app scanner are uploaded together as one receipt
+    const finishScan = (pages: ReceiptFile[]) => {
+        setScannerVisible(false);
+        processFile(pages);
+    };
+
+    // Explains a rate limit or the daily quota, and when to try again
+    const alertOCRLimit = (limit: OCRLimit) => {
+        Alert.alert(limit.code === 'quota-exceeded' ? 'Daily Limit Reached' : 'Too Many Receipts', describeOCRLimit(limit));
+    };
+
+    // One receipt: a PDF, a photo, or the pages of a camera scan
+    const processFile = async (files: ReceiptFile[]) => {
         setLoading(true);
         setExtractedText('');
         setAnalysisResult(null);
         setShowConfirmation(false);
+        setEntryMode('ocr');
+        setReviewingReceiptId(null);
 
         try {
-            const formData = new FormData();
-            formData.append('file', {
-                uri: file.uri,
-                type: 'application/pdf',
-                name: file.name,
-            } as any);
-
-            console.log('Processing file...');
-            const OCR_ENDPOINT = process.env.EXPO_PUBLIC_OCR_ENDPOINT || "";
-            const response = await fetch(OCR_ENDPOINT, {
-                method: 'POST',
-                body: formData,
-                headers: {
-                    'Content-Type': 'multipart/form-data',
-                },
+            if (!(await isOnline())) {
+                offerReceiptQueue(files);
+                return;
+            }
+
+            console.log('Submitting receipt job...');
+            const job = await submitReceiptJob(files, activeCategories);
+            setReceiptJob(job);
+            await saveActiveReceiptJob({
+                jobId: job.id,
+                userId: auth().currentUser?.uid || '',
+                submittedAt: Date.now()
             });
+            await followReceiptJob(job.id);
+        } catch (error) {
+            console.error('Processing error:', error);
+            const limit = getOCRLimit(error);
+            if (isOCRUnreachable(error)) {
+                offerReceiptQueue(files);
+            } else if (limit) {
+                alertOCRLimit(limit);
+            } else if (isOCRUnauthorized(error)) {
+                alertSignInRequired(error);
+            } else {
+                Alert.alert('Error', withRequestId(
+                    'Failed to process the receipt. Please check your connection and try again.',
+                    getOCRRequestId(error)
+                ));
+            }
+        } finally {
+            // A receipt started after this one was cancelled is still loading
+            if (!followedJobIdRef.current) {
+                setLoading(false);
+            }
+        }
+    };
+
+    // Wait for a receipt job to finish and open its result. Keeps going while the app is in the
+    // background; stops without a result if the job is cancelled or the screen goes away.
+    const followReceiptJob = useCallback(async (jobId: string) => {
+        followedJobIdRef.current = jobId;
+        setLoading(true);
+
+        try {
+            const job = await pollReceiptJob(jobId, setReceiptJob, () => followedJobIdRef.current !== jobId);
+            if (!job) return;
+            await clearActiveReceiptJob();
+            console.log('OCR Response:', job.result);
+
+            if (job.status === 'succeeded' && job.result?.success) {
+                showExtractedDataRef.current(job.result);
+            } else if (job.status === 'failed') {
+                Alert.alert('Error', withRequestId(`Failed to extract text from receipt: ${job.error || 'unknown error'}`, job.requestId));
+            }
+        } catch (error: any) {
+            console.error('Receipt job error:', error);
+            if (error?.status === 404) {
+                await clearActiveReceiptJob();
+                Alert.alert('Receipt Not Found', 'The receipt service lost track of this receipt, for example after a restart. Please upload it again.');
+            } else if (isOCRUnauthorized(error)) {
+                await clearActiveReceiptJob();
+                alertSignInRequired(error);
+            } else {
+                Alert.alert('Error', withRequestId(
+                    'Failed to process the receipt. Please check your connection and try again.',
+                    getOCRRequestId(error)
+                ));
+            }
+        } finally {
+            if (followedJobIdRef.current === jobId) {
+                followedJobIdRef.current = null;
+                setReceiptJob(null);
+                setLoading(false);
+            }
+        }
+    }, []);
 
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
+    // Pick up a receipt that was still processing when the app was closed
+    useEffect(() => {
+        loadActiveReceiptJob().then(job => {
+            if (job && job.userId === auth().currentUser?.uid) {
+                followReceiptJob(job.jobId);
             }
+        });
+        return () => {
+            followedJobIdRef.current = null;
+        };
+    }, [followReceiptJob]);
+
+    // Stop processing the current receipt; the backend drops its files
+    const cancelReceiptProcessing = async () => {
+        const jobId = followedJobIdRef.current;
+        if (!jobId) return;
+        followedJobIdRef.current = null;
+        setReceiptJob(null);
+        setLoading(false);
 
-            const data = await response.json();
-            console.log('OCR Response:', data);
-
-            if (data.success) {
-                setExtractedText(data.extractedText);
-                if (data.analysis) {
-                    setAnalysisResult(data.analysis);
-
-                    // Pre-populate form with extracted data
-                    setExpenseData({
-                        amount: parseFloat(data.analysis.amount?.replace(/[^\d.]/g, '') || '0'),
-                        merchantName: data.analysis.beneficiaryName || '',
-                        referenceId: data.analysis.referenceId || '',
-                        transactionDate: data.analysis.date || new Date().toISOString().split('T')[0],
-                        description: '',
-                        category: 'other'
-                    });
+        try {
+            await clearActiveReceiptJob();
+            await cancelReceiptJob(jobId);
+        } catch (error: any) {
+            console.error('Error cancelling receipt job:', error);
+            Alert.alert('Error', withRequestId(`Failed to cancel processing: ${error.message}`, getOCRRequestId(error)));
+        }
+    };
+
+    // Each file is a separate receipt. Results land in the "Ready to Review" queue;
+    // receipts that cannot be sent are kept for the sync queue to process later.
+    const processBatch = async (files: ReceiptFile[]) => {
+        setLoading(true);
+        setBatchProgress({ done: 0, total: files.length });
 
-                    setShowConfirmation(true);
+        let analyzed = 0;
+        let failed = 0;
+        let queued = 0;
+        try {
+            for (let start = 0; start < files.length; start += MAX_BATCH_SIZE) {
+                const chunk = files.slice(start, start + MAX_BATCH_SIZE);
+
+                let results: OCRResponse[] | null = null;
+                try {
+                    results = (await isOnline()) ? await extractReceiptBatch(chunk, activeCategories) : null;
+                } catch (error) {
+                    if (!isOCRUnreachable(error)) throw error;
+                    console.error('Batch upload failed, keeping receipts for later:', error);
                 }
 
-                // Auto-get location if not already available
-                if (!location) {
-                    getCurrentLocation();
+                if (results) {
+                    const entries = chunk.flatMap((file, index) => {
+                        const response = results[index];
+                        return response?.success ? [{ files: [file], response }] : [];
+                    });
+                    await addProcessedReceipts(entries);
+                    analyzed += entries.length;
+                    failed += chunk.length - entries.length;
+                } else {
+                    for (const file of chunk) {
+                        await queueReceiptUpload([file]);
+                    }
+                    queued += chunk.length;
                 }
+                setBatchProgress({ done: start + chunk.length, total: files.length });
+            }
+        } catch (error: any) {
+            console.error('Batch processing error:', error);
+            const limit = getOCRLimit(error);
+            if (limit) {
+                alertOCRLimit(limit);
+            } else if (isOCRUnauthorized(error)) {
+                alertSignInRequired(error);
             } else {
-                Alert.alert('Error', data.error || 'Failed to extract text from PDF');
+                Alert.alert('Error', withRequestId(`Failed to process receipts: ${error.message}`, getOCRRequestId(error)));
             }
-        } catch (error) {
-            console.error('Processing error:', error);
-            Alert.alert('Error', 'Failed to process the PDF. Please check your connection and try again.');
         } finally {
             setLoading(false);
+            setBatchProgress(null);
         }
-    };
 
-    // Function to get current period for budget tracking
-    const getCurrentPeriod = (type: 'daily' | 'weekly' | 'monthly'): string => {
-        const now = new Date();
-        switch (type) {
-            case 'daily':
-                return now.toISOString().split('T')[0];
-            case 'weekly':
-                const startOfYear = new Date(now.getFullYear(), 0, 1);
-                const days = Math.floor((now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000));
-                const weekNumber = Math.ceil((days + startOfYear.getDay() + 1) / 7);
-                return `${now.getFullYear()}-W${weekNumber.toString().padStart(2, '0')}`;
-            case 'monthly':
-                return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
-            default:
-                return '';
+        const summary = [
+            analyzed > 0 && `${analyzed} ready to review`,
+            queued > 0 && `${queued} saved to process when the receipt service is reachable`,
+            failed > 0 && `${failed} could not be read`
+        ].filter(Boolean).join('\n');
+        if (summary) {
+            Alert.alert('Receipts Processed', summary);
         }
     };
 
-    // Function to update budget spending
-    const updateBudgetSpending = async (category: string, amount: number) => {
-        const user = auth().currentUser;
-        if (!user) return;
+    // Keep the receipt on the device and process it once the OCR service can be reached
+    const offerReceiptQueue = (files: ReceiptFile[]) => {
+        Alert.alert(
+            'Receipt Service Unavailable',
+            'The receipt cannot be processed right now. Save it and process it automatically when you are back online?',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Save for Later',
+                    onPress: async () => {
+                        try {
+                            await queueReceiptUpload(files);
+                            Alert.alert('Receipt Saved', 'It will appear under "Ready to Review" once it has been processed.');
+                        } catch (error: any) {
+                            console.error('Error queueing receipt:', error);
+                            Alert.alert('Error', `Failed to save receipt: ${error.message}`);
+                        }
+                    }
+                }
+            ]
+        );
+    };
+
+    const reviewProcessedReceipt = (receipt: ProcessedReceipt) => {
+        showExtractedData(receipt.response);
+        setReviewingReceiptId(receipt.id);
+    };
+
+    // A queued receipt as it would be saved without edits, in its suggested category
+    const getReceiptDraft = (receipt: ProcessedReceipt) => {
+        const analysis = receipt.response.analysis;
+        return withSuggestedCategory(
+            draftFromAnalysis(analysis, appData.homeCurrency, appData.timeZone),
+            suggestCategory(analysis, appData.expenses, activeCategories)
+        );
+    };
+
+    const validateReceipt = (receipt: ProcessedReceipt) =>
+        validateDraft(getReceiptDraft(receipt), appData.homeCurrency, appData.exchangeRates, appData.timeZone);
+
+    // Fields a queued receipt would be saved with, as compared by the duplicate check
+    const getReceiptFingerprint = (receipt: ProcessedReceipt): ExpenseFingerprint | null => {
+        const draft = validateReceipt(receipt);
+        if (draft.error !== undefined) return null;
+        return { ...(draft.fields as ExpenseFingerprint), contentHash: receipt.response.contentHash };
+    };
+
+    const getReceiptDuplicate = (receipt: ProcessedReceipt) => {
+        const fingerprint = getReceiptFingerprint(receipt);
+        return fingerprint ? findDuplicateExpense(fingerprint, appData.expenses, appData.timeZone) : null;
+    };
 
+    // Save every queued receipt that has an amount, merchant and date, as extracted.
+    // Suspected duplicates are left in the queue so the user decides on each one.
+    const confirmSaveAll = () => {
+        const complete = processedReceipts.filter(receipt => validateReceipt(receipt).error === undefined);
+        const ready = complete.filter(receipt => !getReceiptDuplicate(receipt));
+        const incomplete = processedReceipts.length - complete.length;
+        const duplicates = complete.length - ready.length;
+
+        if (ready.length === 0) {
+            Alert.alert(
+                'Nothing to Save',
+                duplicates > 0
+                    ? 'These receipts are missing details or look like expenses you already saved. Review them one by one.'
+                    : 'These receipts are missing an amount, merchant or date. Review them to fill these in.'
+            );
+            return;
+        }
+
+        Alert.alert(
+            'Save All',
+            `Save ${ready.length} receipt${ready.length === 1 ? '' : 's'} as expenses without editing them? Each goes in its suggested category, or ${getCategory('other').name} if there is none.` +
+                (incomplete > 0 ? `\n\n${incomplete} with missing details will stay in the queue.` : '') +
+                (duplicates > 0 ? `\n\n${duplicates} possible duplicate${duplicates === 1 ? '' : 's'} will stay in the queue.` : ''),
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Save All', onPress: () => saveReceiptsInBulk(ready) }
+            ]
+        );
+    };
+
+    const saveReceiptsInBulk = async (receipts: ProcessedReceipt[]) => {
+        setSavingAll(true);
+        const categories = new Set<string>();
+        // Saved in this batch, so two copies of one receipt in the queue are not both saved
+        const savedFingerprints: ExpenseFingerprint[] = [];
+        let saved = 0;
+        let duplicates = 0;
         try {
-            // Find active budgets for this category
-            const budgetsSnapshot = await firestore()
-                .collection('budgets')
-                .where('userId', '==', user.uid)
-                .where('category', '==', category)
-                .where('isActive', '==', true)
-                .get();
-
-            const batch = firestore().batch();
-
-            budgetsSnapshot.docs.forEach(doc => {
-                const budget = doc.data();
-                const currentPeriod = getCurrentPeriod(budget.budgetType);
-
-                // Check if we need to reset the period
-                if (budget.currentPeriod !== currentPeriod) {
-                    // New period, reset spending
-                    batch.update(doc.ref, {
-                        currentPeriod,
-                        currentSpent: amount,
-                        updatedAt: firestore.FieldValue.serverTimestamp()
-                    });
-                } else {
-                    // Same period, add to existing spending
-                    batch.update(doc.ref, {
-                        currentSpent: (budget.currentSpent || 0) + amount,
-                        updatedAt: firestore.FieldValue.serverTimestamp()
-                    });
+            for (const receipt of receipts) {
+                const draft = validateReceipt(receipt);
+                const fingerprint = getReceiptFingerprint(receipt);
+                if (draft.error !== undefined || !fingerprint) continue;
+
+                const { expenses, timeZone } = appDataRef.current;
+                if (findDuplicateExpense(fingerprint, expenses, timeZone) ||
+                    savedFingerprints.some(other => getDuplicateReason(fingerprint, other, timeZone))) {
+                    duplicates++;
+                    continue;
                 }
-            });
 
-            await batch.commit();
-            console.log('Budget spending updated successfully');
-        } catch (error) {
-            console.error('Error updating budget spending:', error);
-            // Don't show error to user as this is background operation
+                // Captured earlier, so the current location says nothing about where
+                await createExpense({
+                    ...draft.fields,
+                    location: null,
+                    extractedText: receipt.response.extractedText,
+                    attachments: receipt.response.attachments || [],
+                    contentHash: receipt.response.contentHash || '',
+                    source: 'ocr'
+                });
+                await removeProcessedReceipt(receipt.id);
+                savedFingerprints.push(fingerprint);
+                categories.add(draft.fields.category);
+                saved++;
+            }
+        } catch (error: any) {
+            console.error('Error saving receipts:', error);
+            Alert.alert('Error', `Failed to save receipts: ${error.message}`);
+        } finally {
+            setSavingAll(false);
         }
-    };
 
-    // Function to check for budget alerts
-    const checkBudgetAlerts = async (category: string, amount: number) => {
-        const user = auth().currentUser;
-        if (!user) return;
+        if (saved > 0) {
+            setTimeout(() => {
+                categories.forEach(checkBudgetAlerts);
+                checkOverspendingAlert();
+            }, 1000);
+        }
+        if (saved > 0 || duplicates > 0) {
+            Alert.alert(
+                'Receipts Saved',
+                `${saved} expense${saved === 1 ? '' : 's'} saved.` +
+                    (duplicates > 0 ? `\n\n${duplicates} possible duplicate${duplicates === 1 ? '' : 's'} stayed in the queue for review.` : '')
+            );
+        }
+    };
 
-        try {
-            // Get updated budgets after spending update
-            const budgetsSnapshot = await firestore()
-                .collection('budgets')
-                .where('userId', '==', user.uid)
-                .where('category', '==', category)
-                .where('isActive', '==', true)
-                .get();
-
-            budgetsSnapshot.docs.forEach(doc => {
-                const budget = doc.data();
-                const currentPeriod = getCurrentPeriod(budget.budgetType);
-
-                if (budget.currentPeriod === currentPeriod) {
-                    const spentAmount = budget.currentSpent || 0;
-                    const budgetAmount = budget.budgetAmount || 0;
-                    const percentage = (spentAmount / budgetAmount) * 100;
-
-                    if (percentage >= 100) {
-                        Alert.alert(
-                            '⚠️ Budget Exceeded!',
-                            `You've exceeded your ${budget.budgetType} budget for ${category}.\nSpent: RM${spentAmount.toFixed(2)} / RM${budgetAmount.toFixed(2)}`,
-                            [{ text: 'OK', style: 'default' }]
-                        );
-                    } else if (percentage >= 90) {
-                        Alert.alert(
-                            '⚠️ Budget Alert',
-                            `You're at ${percentage.toFixed(1)}% of your ${budget.budgetType} budget for ${category}.\nSpent: RM${spentAmount.toFixed(2)} / RM${budgetAmount.toFixed(2)}`,
-                            [{ text: 'OK', style: 'default' }]
-                        );
+    const dismissProcessedReceipt = (receipt: ProcessedReceipt) => {
+        Alert.alert(
+            'Discard Receipt',
+            `Discard ${getReceiptName(receipt.files)} without saving an expense?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Discard',
+                    style: 'destructive',
+                    onPress: () => {
+                        discardAttachments(receipt.response.attachments || []);
+                        removeProcessedReceipt(receipt.id);
                     }
                 }
-            });
-        } catch (error) {
-            console.error('Error checking budget alerts:', error);
-        }
+            ]
+        );
     };
 
-    // Function to check overspending alerts
-    const checkOverspendingAlert = async (amount: number) => {
-        const user = auth().currentUser;
-        if (!user) return;
+    // Stored receipt files no expense will link to; failures only leave a file behind
+    const discardAttachments = (unused: ReceiptAttachment[]) => {
+        if (unused.length === 0) return;
+        deleteReceiptAttachments(unused).catch(error =>
+            console.error('Error deleting receipt attachments:', error));
+    };
 
-        try {
-            // Get user preferences
-            const userDoc = await firestore().collection('users').doc(user.uid).get();
-            if (!userDoc.exists) return;
-
-            const userData = userDoc.data();
-            const overspendingLimit = userData?.preferences?.notifications?.overspendingAlerts || 1000;
-
-            // Get current month's total expenses
-            const now = new Date();
-            const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-            const endOfMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59);
-
-            const expensesSnapshot = await firestore()
-                .collection('expenses')
-                .where('userId', '==', user.uid)
-                .where('createdAt', '>=', startOfMonth)
-                .where('createdAt', '<=', endOfMonth)
-                .get();
-
-            let totalMonthlySpent = 0;
-            expensesSnapshot.docs.forEach(doc => {
-                totalMonthlySpent += doc.data().amount || 0;
+    // Open the confirmation form without a receipt (cash, tap-to-pay, etc.)
+    const startManualEntry = () => {
+        setExtractedText('');
+        setAnalysisResult(null);
+        setAttachments([]);
+        setContentHash('');
+        setReviewedFields([]);
+        setCategorySuggestion(null);
+        setReviewingReceiptId(null);
+        setExpenseData(emptyDraft(appData.homeCurrency, formatCalendarDay(getToday(appData.timeZone))));
+        setEntryMode('manual');
+        setShowConfirmation(true);
+
+        if (!location) {
+            getCurrentLocation();
+        }
+    };
+
+    // Function to check for budget alerts
+    const checkBudgetAlerts = (category: string) => {
+        // Spending is derived from the live expenses, including the one just added
+        const { activeBudgets, expenses, exchangeRates, timeZone } = appDataRef.current;
+
+        activeBudgets
+            .filter(budget => budget.category === category)
+            .forEach(budget => {
+                const spentAmount = calculateBudgetSpending(budget, expenses, exchangeRates, timeZone);
+                const budgetAmount = budget.budgetAmount;
+                const percentage = moneyRatio(spentAmount, budgetAmount) * 100;
+
+                if (percentage >= 100) {
+                    Alert.alert(
+                        '⚠️ Budget Exceeded!',
+                        `You've exceeded your ${budget.budgetType} budget for ${getCategory(category).name}.\nSpent: ${formatMoney(spentAmount)} / ${formatMoney(budgetAmount)}`,
+                        [{ text: 'OK', style: 'default' }]
+                    );
+                } else if (percentage >= 90) {
+                    Alert.alert(
+                        '⚠️ Budget Alert',
+                        `You're at ${percentage.toFixed(1)}% of your ${budget.budgetType} budget for ${getCategory(category).name}.\nSpent: ${formatMoney(spentAmount)} / ${formatMoney(budgetAmount)}`,
+                        [{ text: 'OK', style: 'default' }]
+                    );
+                }
             });
+    };
 
-            // Add current expense
-            totalMonthlySpent += amount;
+    // Function to check overspending alerts
+    const checkOverspendingAlert = () => {
+        const { expenses, preferences, exchangeRates, timeZone } = appDataRef.current;
+        const overspendingLimit = preferences.notifications.overspendingAlerts;
+        const totalMonthlySpent = calculateMonthlySpending(expenses, overspendingLimit.currency, exchangeRates, timeZone);
 
-            if (totalMonthlySpent >= overspendingLimit) {
-                Alert.alert(
-                    '🚨 Overspending Alert!',
-                    `Your monthly expenses have reached RM${totalMonthlySpent.toFixed(2)}, exceeding your limit of RM${overspendingLimit.toFixed(2)}.`,
-                    [{ text: 'OK', style: 'default' }]
-                );
-            }
-        } catch (error) {
-            console.error('Error checking overspending alert:', error);
+        if (moneyRatio(totalMonthlySpent, overspendingLimit) >= 1) {
+            Alert.alert(
+                '🚨 Overspending Alert!',
+                `Your monthly expenses have reached ${formatMoney(totalMonthlySpent)}, exceeding your limit of ${formatMoney(overspendingLimit)}.`,
+                [{ text: 'OK', style: 'default' }]
+            );
         }
     };
 
@@ -404,63 +736,142 @@ export default function OCRScreen() {
             return;
         }
 
-        if (!expenseData.amount || expenseData.amount <= 0) {
-            Alert.alert('Error', 'Please enter a valid amount');
+        const draft = validateDraft(expenseData, appData.homeCurrency, appData.exchangeRates, appData.timeZone);
+        if (draft.error !== undefined) {
+            Alert.alert('Error', draft.error);
             return;
         }
 
-        if (!expenseData.merchantName.trim()) {
-            Alert.alert('Error', 'Please enter the merchant name');
+        // userId and timestamps are added when the queued expense reaches the server
+        const expenseDoc = {
+            // Receipt details and user input
+            ...draft.fields,
+
+            // Location Data
+            location: location ? {
+                latitude: location.latitude,
+                longitude: location.longitude,
+                address: location.address,
+                city: location.city
+            } : null,
+
+            // Optional: Store extracted text for debugging
+            extractedText: entryMode === 'ocr' ? extractedText : '',
+
+            // Original receipt files, viewable from History
+            attachments: entryMode === 'ocr' ? attachments : [],
+            contentHash: entryMode === 'ocr' ? contentHash : '',
+
+            // How the expense was captured: scanned receipt or manual entry
+            source: entryMode
+        };
+
+        const fingerprint = { ...(draft.fields as ExpenseFingerprint), contentHash: expenseDoc.contentHash };
+        const duplicate = findDuplicateExpense(fingerprint, appData.expenses, appData.timeZone);
+        if (duplicate) {
+            confirmDuplicate(duplicate, expenseDoc, draft.amount);
             return;
         }
+        await writeExpense(expenseDoc, draft.amount);
+    };
 
+    // A new expense that looks like one already saved: skip it, merge it into that one, or save it anyway
+    const confirmDuplicate = (duplicate: SuspectedDuplicate, expenseDoc: Record<string, any>, amount: Money) => {
+        const existing = duplicate.expense;
+        const existingDetails = [
+            existing.merchantName,
+            formatMoney(existing.amount),
+            formatDateInZone(existing.transactionDate.toDate(), appData.timeZone),
+            existing.referenceId
+        ].filter(Boolean).join(' · ');
+
+        Alert.alert(
+            'Possible Duplicate',
+            `${duplicateReasonText[duplicate.reason]}:\n\n${existingDetails}\n\n` +
+                'Skip this receipt, merge its details into that expense, or save it as a new expense anyway?',
+            [
+                { text: 'Skip', style: 'cancel', onPress: skipDuplicate },
+                { text: 'Merge', onPress: () => mergeDuplicate(existing, expenseDoc) },
+                { text: 'Save Anyway', onPress: () => writeExpense(expenseDoc, amount) }
+            ]
+        );
+    };
+
+    const writeExpense = async (expenseDoc: Record<string, any>, amount: Money) => {
         setSaving(true);
         try {
-            const expenseDoc = {
-                userId: user.uid,
-
-                // Receipt Information (OCR Extracted)
-                amount: expenseData.amount,
-                merchantName: expenseData.merchantName.trim(),
-                referenceId: expenseData.referenceId.trim(),
-                transactionDate: expenseData.transactionDate,
-
-                // User Input
-                description: expenseData.description.trim(),
-                category: expenseData.category,
-
-                // Location Data
-                location: location ? {
-                    latitude: location.latitude,
-                    longitude: location.longitude,
-                    address: location.address,
-                    city: location.city
-                } : null,
-
-                // Optional: Store extracted text for debugging
-                extractedText: extractedText,
-
-                // Metadata
-                createdAt: firestore.FieldValue.serverTimestamp(),
-                updatedAt: firestore.FieldValue.serverTimestamp()
-            };
-
-            // Save expense to database
-            await firestore().collection('expenses').add(expenseDoc);
-
-            // Update budget spending (background operation)
-            await updateBudgetSpending(expenseData.category, expenseData.amount);
+            // Queue the expense; it is written to the database now or once back online
+            await createExpense(expenseDoc);
+            const online = await isOnline();
 
             // Check for budget alerts
             setTimeout(() => {
-                checkBudgetAlerts(expenseData.category, expenseData.amount);
-                checkOverspendingAlert(expenseData.amount);
+                checkBudgetAlerts(expenseDoc.category);
+                checkOverspendingAlert();
             }, 1000);
 
             // Show success message and automatically reset form
-            Alert.alert(
+            await finishReview(
                 'Success! 🎉',
-                `Expense of RM${expenseData.amount.toFixed(2)} saved successfully!\n\nUpload another receipt to add more expenses.`,
+                `Expense of ${formatMoney(amount)} ${online ? 'saved successfully!' : 'saved on this device and will sync when you are back online.'}`
+            );
+        } catch (error: any) {
+            console.error('Error saving expense:', error);
+            Alert.alert('Error', `Failed to save expense: ${error.message}`);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    // The saved expense keeps its amount and category, so budgets are unchanged
+    const mergeDuplicate = async (existing: Expense, expenseDoc: Record<string, any>) => {
+        setSaving(true);
+        try {
+            await mergeIntoExpense(existing, expenseDoc);
+            await finishReview(
+                'Merged',
+                `This receipt's details were added to the ${formatMoney(existing.amount)} expense at ${existing.merchantName}.`
+            );
+        } catch (error: any) {
+            console.error('Error merging expense:', error);
+            Alert.alert('Error', `Failed to merge expense: ${error.message}`);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const skipDuplicate = async () => {
+        discardAttachments(attachments);
+        try {
+            await finishReview('Receipt Skipped', 'No expense was saved for this receipt.');
+        } catch (error: any) {
+            console.error('Error skipping receipt:', error);
+            Alert.alert('Error', `Failed to skip receipt: ${error.message}`);
+        }
+    };
+
+    // Once the form's receipt is saved, merged or skipped: take it off the review queue and offer the next one
+    const finishReview = async (title: string, message: string) => {
+        const nextReceipt = reviewingReceiptId
+            ? processedReceipts.find(receipt => receipt.id !== reviewingReceiptId)
+            : undefined;
+        if (reviewingReceiptId) {
+            await removeProcessedReceipt(reviewingReceiptId);
+        }
+
+        if (nextReceipt) {
+            Alert.alert(
+                title,
+                `${message}\n\nMore receipts are waiting to be reviewed.`,
+                [
+                    { text: 'Done', style: 'cancel', onPress: resetForm },
+                    { text: 'Review Next', onPress: () => reviewProcessedReceipt(nextReceipt) }
+                ]
+            );
+        } else {
+            Alert.alert(
+                title,
+                `${message}\n\nUpload another receipt or add one manually to record more expenses.`,
                 [
                     {
                         text: 'OK',
@@ -468,27 +879,28 @@ export default function OCRScreen() {
                     }
                 ]
             );
-
-        } catch (error: any) {
-            console.error('Error saving expense:', error);
-            Alert.alert('Error', `Failed to save expense: ${error.message}`);
-        } finally {
-            setSaving(false);
         }
     };
 
     const resetForm = () => {
         setExtractedText('');
         setAnalysisResult(null);
+        setAttachments([]);
+        setContentHash('');
+        setReviewedFields([]);
+        setCategorySuggestion(null);
         setShowConfirmation(false);
-        setExpenseData({
-            amount: 0,
-            merchantName: '',
-            referenceId: '',
-            transactionDate: '',
-            description: '',
-            category: 'other'
-        });
+        setEntryMode('ocr');
+        setReviewingReceiptId(null);
+        setExpenseData(emptyDraft(appData.homeCurrency));
+    };
+
+    // Receipts from the review queue stay there; a fresh upload is dropped along with its stored files
+    const cancelConfirmation = () => {
+        if (entryMode === 'ocr' && !reviewingReceiptId) {
+            discardAttachments(attachments);
+        }
+        resetForm();
     };
 
     const renderMainScreen = () => (
@@ -496,22 +908,109 @@ export default function OCRScreen() {
             <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
                 <View style={styles.header}>
                     <Text style={styles.title}>📱 Scan Receipt</Text>
-                    <Text style={styles.subtitle}>Upload PDF receipt to extract expense data</Text>
+                    <Text style={styles.subtitle}>Scan or upload a receipt, or add an expense manually</Text>
                 </View>
 
                 {/* Action Buttons */}
                 <View style={styles.buttonContainer}>
+                    <TouchableOpacity
+                        style={[styles.button, styles.primaryButton]}
+                        onPress={() => setScannerVisible(true)}
+                        disabled={loading}
+                    >
+                        <Text style={styles.buttonText}>📷 Scan Receipt with Camera</Text>
+                    </TouchableOpacity>
+
                     <TouchableOpacity
                         style={[styles.button, styles.primaryButton]}
                         onPress={pickDocument}
                         disabled={loading}
                     >
                         <Text style={styles.buttonText}>
-                            {loading ? '🔄 Processing...' : '📄 Upload PDF Receipt'}
+                            {loading
+                                ? batchProgress
+                                    ? `🔄 Processing ${batchProgress.done}/${batchProgress.total}...`
+                                    : '🔄 Processing...'
+                                : '📄 Upload Receipt Files'}
                         </Text>
                     </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={[styles.button, styles.primaryButton]}
+                        onPress={pickPhoto}
+                        disabled={loading}
+                    >
+                        <Text style={styles.buttonText}>🖼️ Choose Receipt Photo</Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={[styles.button, styles.secondaryButton]}
+                        onPress={startManualEntry}
+                        disabled={loading}
+                    >
+                        <Text style={styles.secondaryButtonText}>✍️ Add Expense Manually</Text>
+                    </TouchableOpacity>
                 </View>
 
+                {/* Receipts saved offline */}
+                {(queuedReceiptCount > 0 || processedReceipts.length > 0) && (
+                    <View style={styles.receiptQueueCard}>
+                        {queuedReceiptCount > 0 && (
+                            <Text style={styles.receiptQueueWaiting}>
+                                ⏳ {queuedReceiptCount} receipt{queuedReceiptCount === 1 ? '' : 's'} waiting to be processed
+                            </Text>
+                        )}
+                        {processedReceipts.length > 0 && (
+                            <>
+                                <View style={styles.receiptQueueHeader}>
+                                    <Text style={styles.locationTitle}>📥 Ready to Review ({processedReceipts.length})</Text>
+                                    <TouchableOpacity
+                                        style={styles.receiptQueueAction}
+                                        onPress={confirmSaveAll}
+                                        disabled={savingAll}
+                                    >
+                                        <Text style={styles.retryButtonText}>{savingAll ? 'Saving...' : 'Save All'}</Text>
+                                    </TouchableOpacity>
+                                </View>
+                                {processedReceipts.map(receipt => {
+                                    const draft = validateReceipt(receipt);
+                                    const isDuplicate = draft.error === undefined && !!getReceiptDuplicate(receipt);
+                                    const analysis = receipt.response.analysis;
+                                    return (
+                                        <View key={receipt.id} style={styles.receiptQueueItem}>
+                                            <View style={styles.receiptQueueInfo}>
+                                                <Text style={styles.receiptQueueName} numberOfLines={1}>
+                                                    {analysis?.beneficiaryName || getReceiptName(receipt.files)}
+                                                </Text>
+                                                <Text
+                                                    style={[
+                                                        styles.receiptQueueDetails,
+                                                        (draft.error !== undefined || isDuplicate) && styles.receiptQueueWarning
+                                                    ]}
+                                                    numberOfLines={1}
+                                                >
+                                                    {draft.error !== undefined
+                                                        ? '⚠️ Missing details'
+                                                        : `${isDuplicate ? '⚠️ Possible duplicate · ' : ''}${formatMoney(draft.amount)} · ${getReceiptDraft(receipt).transactionDate}`}
+                                                </Text>
+                                            </View>
+                                            <TouchableOpacity
+                                                style={styles.receiptQueueAction}
+                                                onPress={() => reviewProcessedReceipt(receipt)}
+                                            >
+                                                <Text style={styles.retryButtonText}>Review</Text>
+                                            </TouchableOpacity>
+                                            <TouchableOpacity onPress={() => dismissProcessedReceipt(receipt)}>
+                                                <Text style={styles.receiptQueueDismiss}>✕</Text>
+                                            </TouchableOpacity>
+                                        </View>
+                                    );
+                                })}
+                            </>
+                        )}
+                    </View>
+                )}
+
                 {/* Location Display */}
                 <View style={styles.locationCard}>
                     {locationLoading ? (
@@ -547,14 +1046,74 @@ export default function OCRScreen() {
                 {loading && (
                     <View style={styles.loadingCard}>
                         <ActivityIndicator size="large" color="#4285F4" />
-                        <Text style={styles.loadingText}>Processing your receipt...</Text>
-                        <Text style={styles.loadingSubtext}>This may take a few moments</Text>
+                        <Text style={styles.loadingText}>
+                            {receiptJob ? `${receiptJobStageText[receiptJob.stage]}...` : 'Processing your receipt...'}
+                        </Text>
+                        <Text style={styles.loadingSubtext}>
+                            {receiptJob
+                                ? 'You can leave the app; the receipt keeps processing'
+                                : 'This may take a few moments'}
+                        </Text>
+                        {receiptJob && (
+                            <TouchableOpacity
+                                style={[styles.button, styles.cancelJobButton]}
+                                onPress={cancelReceiptProcessing}
+                            >
+                                <Text style={styles.cancelButtonText}>Cancel</Text>
+                            </TouchableOpacity>
+                        )}
                     </View>
                 )}
             </ScrollView>
         </View>
     );
 
+    // Value in the home currency for amounts entered in another currency
+    const renderConversionHint = () => {
+        const amount = parseMoney(expenseData.amount, expenseData.currency);
+        if (!isPositiveMoney(amount) || amount.currency === appData.homeCurrency) return null;
+
+        try {
+            const { exchangeRate, homeAmount } = withHomeAmount(amount, appData.homeCurrency, appData.exchangeRates);
+            return (
+                <Text style={styles.conversionHint}>
+                    ≈ {formatMoney(homeAmount)} at 1 {amount.currency} = {exchangeRate.toFixed(4)} {appData.homeCurrency}
+                </Text>
+            );
+        } catch {
+            return (
+                <Text style={styles.conversionHint}>
+                    No exchange rate for {amount.currency}; add one under Profile → Currency
+                </Text>
+            );
+        }
+    };
+
+    // Change form fields; an edited field counts as checked by the user
+    const editDraft = (changes: Partial<ExpenseDraft>) => {
+        setExpenseData({ ...expenseData, ...changes });
+        const edited = Object.keys(changes) as (keyof ExpenseDraft)[];
+        setReviewedFields([...new Set([...reviewedFields, ...edited])]);
+    };
+
+    // Confidence details of a pre-filled field the backend was unsure of, until the user edits it
+    const getFieldWarning = (field: keyof ExpenseDraft) => {
+        const analysisField = DRAFT_FIELD_SOURCES[field];
+        if (entryMode !== 'ocr' || !analysisField || reviewedFields.includes(field)) return null;
+        return getLowConfidence(analysisResult, analysisField);
+    };
+
+    const renderFieldWarning = (field: keyof ExpenseDraft) => {
+        const warning = getFieldWarning(field);
+        if (!warning) return null;
+
+        return (
+            <Text style={styles.fieldWarning}>
+                ⚠️ Please check this. {warning.source ? `Read from: "${warning.source}"` : 'It was not clearly printed on the receipt.'}
+            </Text>
+        );
+    };
+
     const renderConfirmationScreen = () => (
         <KeyboardAvoidingView
             style={styles.container}
@@ -562,39 +1121,96 @@ export default function OCRScreen() {
         >
             <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
                 <View style={styles.header}>
-                    <Text style={styles.title}>✅ Confirm Expense</Text>
-                    <Text style={styles.subtitle}>Review and edit the extracted information</Text>
+                    <Text style={styles.title}>
+                        {entryMode === 'manual' ? '✍️ Add Expense' : '✅ Confirm Expense'}
+                    </Text>
+                    <Text style={styles.subtitle}>
+                        {entryMode === 'manual'
+                            ? 'Enter the details of your expense'
+                            : 'Review and edit the extracted information'}
+                    </Text>
+                    {(Object.keys(DRAFT_FIELD_SOURCES) as (keyof ExpenseDraft)[]).some(getFieldWarning) && (
+                        <Text style={styles.reviewHint}>Highlighted fields may have been misread</Text>
+                    )}
                 </View>
 
                 <View style={styles.formCard}>
                     {/* Amount */}
                     <View style={styles.inputContainer}>
-                        <Text style={styles.inputLabel}>Amount (MYR)</Text>
+                        <Text style={styles.inputLabel}>Amount ({expenseData.currency})</Text>
                         <TextInput
-                            style={[styles.input, styles.amountInput]}
-                            value={expenseData.amount.toString()}
-                            onChangeText={(text) => setExpenseData({ ...expenseData, amount: parseFloat(text) || 0 })}
+                            style={[styles.input, styles.amountInput, getFieldWarning('amount') && styles.lowConfidenceInput]}
+                            value={expenseData.amount}
+                            onChangeText={(text) => editDraft({ amount: text })}
                             keyboardType="numeric"
                             placeholder="0.00"
                         />
+                        {renderFieldWarning('amount')}
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.currencyScroll}>
+                            {currencies.map((currency) => (
+                                <TouchableOpacity
+                                    key={currency.code}
+                                    style={[
+                                        styles.categoryChip,
+                                        expenseData.currency === currency.code && styles.selectedCategory
+                                    ]}
+                                    onPress={() => editDraft({ currency: currency.code })}
+                                >
+                                    <Text style={[
+                                        styles.categoryText,
+                                        expenseData.currency === currency.code && styles.selectedCategoryText
+                                    ]}>
+                                        {currency.code}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </ScrollView>
+                        {renderConversionHint()}
                     </View>
 
                     {/* Merchant Name */}
                     <View style={styles.inputContainer}>
                         <Text style={styles.inputLabel}>Merchant Name</Text>
                         <TextInput
-                            style={styles.input}
+                            style={[styles.input, getFieldWarning('merchantName') && styles.lowConfidenceInput]}
                             value={expenseData.merchantName}
-                            onChangeText={(text) => setExpenseData({ ...expenseData, merchantName: text })}
+                            onChangeText={(text) => editDraft({ merchantName: text })}
                             placeholder="Enter merchant name"
                         />
+                        {renderFieldWarning('merchantName')}
+                    </View>
+
+                    {/* Transaction Date */}
+                    <View style={styles.inputContainer}>
+                        <Text style={styles.inputLabel}>Transaction Date</Text>
+                        <TextInput
+                            style={[styles.input, getFieldWarning('transactionDate') && styles.lowConfidenceInput]}
+                            value={expenseData.transactionDate}
+                            onChangeText={(text) => editDraft({ transactionDate: text })}
+                            placeholder="YYYY-MM-DD"
+                            keyboardType="numbers-and-punctuation"
+                        />
+                        {renderFieldWarning('transactionDate')}
+                    </View>
+
+                    {/* Transaction Time */}
+                    <View style={styles.inputContainer}>
+                        <Text style={styles.inputLabel}>Transaction Time (optional)</Text>
+                        <TextInput
+                            style={[styles.input, getFieldWarning('transactionTime') && styles.lowConfidenceInput]}
+                            value={expenseData.transactionTime}
+                            onChangeText={(text) => editDraft({ transactionTime: text })}
+                            placeholder="HH:MM"
+                            keyboardType="numbers-and-punctuation"
+                        />
+                        {renderFieldWarning('transactionTime')}
                     </View>
 
                     {/* Category Selection */}
                     <View style={styles.inputContainer}>
                         <Text style={styles.inputLabel}>Category</Text>
                         <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.categoryScroll}>
-                            {categories.map((category) => (
+                            {activeCategories.map((category) => (
                                 <TouchableOpacity
                                     key={category.id}
                                     style={[
@@ -613,6 +1229,9 @@ export default function OCRScreen() {
                                 </TouchableOpacity>
                             ))}
                         </ScrollView>
+                        {categorySuggestion && expenseData.category === categorySuggestion.id && (
+                            <Text style={styles.categoryHint}>💡 {categorySuggestion.reason}</Text>
+                        )}
                     </View>
 
                     {/* Description */}
@@ -631,11 +1250,12 @@ export default function OCRScreen() {
                     <View style={styles.inputContainer}>
                         <Text style={styles.inputLabel}>Reference ID</Text>
                         <TextInput
-                            style={styles.input}
+                            style={[styles.input, getFieldWarning('referenceId') && styles.lowConfidenceInput]}
                             value={expenseData.referenceId}
-                            onChangeText={(text) => setExpenseData({ ...expenseData, referenceId: text })}
+                            onChangeText={(text) => editDraft({ referenceId: text })}
                             placeholder="Transaction reference"
                         />
+                        {renderFieldWarning('referenceId')}
                     </View>
 
                     {/* Action Buttons */}
@@ -654,7 +1274,7 @@ export default function OCRScreen() {
 
                         <TouchableOpacity
                             style={[styles.button, styles.cancelButton]}
-                            onPress={resetForm}
+                            onPress={cancelConfirmation}
                             disabled={saving}
                         >
                             <Text style={styles.cancelButtonText}>Cancel</Text>
@@ -668,6 +1288,11 @@ export default function OCRScreen() {
     return (
         <SafeAreaView style={styles.safeArea}>
             {showConfirmation ? renderConfirmationScreen() : renderMainScreen()}
+            <ReceiptScanner
+                visible={scannerVisible}
+                onCancel={() => setScannerVisible(false)}
+                onDone={finishScan}
+            />
         </SafeAreaView>
     );
 }
@@ -796,6 +1421,64 @@ const styles = StyleSheet.create({
         fontWeight: '600',
     },
 
+    // Receipt Queue
+    receiptQueueCard: {
+        backgroundColor: '#fff',
+        marginHorizontal: 20,
+        marginTop: 20,
+        padding: 16,
+        borderRadius: 12,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 4,
+        elevation: 3,
+    },
+    receiptQueueWaiting: {
+        fontSize: 14,
+        color: '#666',
+        marginBottom: 8,
+    },
+    receiptQueueItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderTopWidth: 1,
+        borderTopColor: '#f0f0f0',
+    },
+    receiptQueueHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+    },
+    receiptQueueInfo: {
+        flex: 1,
+        marginRight: 8,
+    },
+    receiptQueueName: {
+        fontSize: 14,
+        color: '#333',
+    },
+    receiptQueueDetails: {
+        fontSize: 12,
+        color: '#666',
+        marginTop: 2,
+    },
+    receiptQueueWarning: {
+        color: '#FFA500',
+    },
+    receiptQueueAction: {
+        backgroundColor: '#4285F4',
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 8,
+        marginRight: 12,
+    },
+    receiptQueueDismiss: {
+        fontSize: 16,
+        color: '#999',
+    },
+
     // Loading Card
     loadingCard: {
         backgroundColor: '#fff',
@@ -820,6 +1503,13 @@ const styles = StyleSheet.create({
         color: '#666',
         marginTop: 4,
     },
+    cancelJobButton: {
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#FF6B6B',
+        marginTop: 16,
+        paddingHorizontal: 32,
+    },
 
     // Form Styles
     formCard: {
@@ -887,6 +1577,34 @@ const styles = StyleSheet.create({
         color: '#fff',
         fontWeight: '600',
     },
+    categoryHint: {
+        fontSize: 12,
+        color: '#666',
+        marginTop: 8,
+    },
+    currencyScroll: {
+        marginTop: 12,
+    },
+    conversionHint: {
+        fontSize: 12,
+        color: '#666',
+        marginTop: 8,
+    },
+    lowConfidenceInput: {
+        borderColor: '#FFA500',
+        backgroundColor: '#fff8eb',
+    },
+    fieldWarning: {
+        fontSize: 12,
+        color: '#b36b00',
+        marginTop: 6,
+    },
+    reviewHint: {
+        fontSize: 14,
+        color: '#b36b00',
+        fontWeight: '500',
+        marginTop: 8,
+    },
 
     // Action Buttons
     actionButtonsContainer: {
@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useContext, useCallback } from "react";
+import React, { useState, useContext, useCallback, useMemo } from "react";
 import {
     View,
     Text,
@@ -12,95 +12,43 @@ import {
     RefreshControl
 } from "react-native";
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useFocusEffect } from '@react-navigation/native';
+import { router } from 'expo-router';
 import auth, { FirebaseAuthTypes } from "@react-native-firebase/auth";
-import firestore from "@react-native-firebase/firestore";
 import { GoogleSignin } from "@react-native-google-signin/google-signin";
 import { AuthContext } from '../_layout';
 import { getApp } from '@react-native-firebase/app';
 
+import { useAppData } from '@/hooks/useAppData';
+import { calculateMonthlySpending } from '@/services/budgets';
+import { formatMoney, getCurrencyInfo } from '@/services/money';
+import { processQueue } from '@/services/syncQueue';
+
 const { width } = Dimensions.get('window');
 
 export default function ProfileScreen() {
     const { user } = useContext(AuthContext);
     const [loading, setLoading] = useState(false);
-    const [userStats, setUserStats] = useState({
-        totalExpenses: 0,
-        monthlySpent: 0,
-        activeBudgets: 0,
-        totalBudgets: 0
-    });
+    const { expenses, budgets, activeBudgets, homeCurrency, exchangeRates, timeZone } = useAppData();
     const [refreshing, setRefreshing] = useState(false);
 
-    useEffect(() => {
-        if (user) {
-            loadUserStats(user.uid);
-        }
-    }, [user]);
-
-    // Refresh data when screen comes into focus
-    useFocusEffect(
-        useCallback(() => {
-            if (user) {
-                loadUserStats(user.uid);
-            }
-        }, [user])
-    );
+    const userStats = useMemo(() => ({
+        totalExpenses: expenses.length,
+        monthlySpent: calculateMonthlySpending(expenses, homeCurrency, exchangeRates, timeZone),
+        activeBudgets: activeBudgets.length,
+        totalBudgets: budgets.length
+    }), [expenses, budgets, activeBudgets, homeCurrency, exchangeRates, timeZone]);
 
-    const loadUserStats = async (userId: string) => {
+    // Stats stay live; pulling down retries any unsynced changes
+    const onRefresh = useCallback(async () => {
+        setRefreshing(true);
         try {
-            // Get total expenses count
-            const expensesSnapshot = await firestore()
-                .collection('expenses')
-                .where('userId', '==', userId)
-                .get();
-
-            // Get current month expenses
-            const now = new Date();
-            const currentMonth = now.getMonth();
-            const currentYear = now.getFullYear();
-
-            let monthlyTotal = 0;
-            expensesSnapshot.docs.forEach(doc => {
-                const expense = doc.data();
-                const expenseDate = expense.createdAt?.toDate() || new Date(expense.transactionDate);
-
-                if (expenseDate.getMonth() === currentMonth && expenseDate.getFullYear() === currentYear) {
-                    monthlyTotal += expense.amount || 0;
-                }
-            });
-
-            // Get budgets count
-            const budgetsSnapshot = await firestore()
-                .collection('budgets')
-                .where('userId', '==', userId)
-                .get();
-
-            const activeBudgets = budgetsSnapshot.docs.filter(doc => doc.data().isActive).length;
-
-            setUserStats({
-                totalExpenses: expensesSnapshot.docs.length,
-                monthlySpent: monthlyTotal,
-                activeBudgets: activeBudgets,
-                totalBudgets: budgetsSnapshot.docs.length
-            });
+            await processQueue();
         } catch (error) {
-            console.error('Error loading user stats:', error);
-        }
-    };
-
-    const onRefresh = useCallback(async () => {
-        if (user) {
-            setRefreshing(true);
-            try {
-                await loadUserStats(user.uid);
-            } catch (error) {
-                console.error('Error refreshing profile data:', error);
-            } finally {
-                setRefreshing(false);
-            }
+            console.error('Error refreshing profile data:', error);
+        } finally {
+            setRefreshing(false);
         }
-    }, [user]);
+    }, []);
 
     const handleSignOut = async () => {
         Alert.alert(
@@ -208,7 +156,7 @@ export default function ProfileScreen() {
                             <Text style={styles.statLabel}>Total Expenses</Text>
                         </View>
                         <View style={styles.statCard}>
-                            <Text style={styles.statNumber}>RM {userStats.monthlySpent.toFixed(0)}</Text>
+                            <Text style={styles.statNumber}>{formatMoney(userStats.monthlySpent, 0)}</Text>
                             <Text style={styles.statLabel}>This Month</Text>
                         </View>
                     </View>
@@ -229,15 +177,31 @@ export default function ProfileScreen() {
                 <View style={styles.settingsContainer}>
                     <Text style={styles.sectionTitle}>⚙️ Settings</Text>
 
-                    <View style={styles.settingCard}>
+                    <TouchableOpacity
+                        style={styles.settingCard}
+                        onPress={() => router.push('/categories')}
+                    >
+                        <Text style={styles.settingTitle}>🏷️ Categories</Text>
+                        <Text style={styles.settingValue}>Create, rename, reorder and archive categories</Text>
+                    </TouchableOpacity>
+
+                    <TouchableOpacity
+                        style={styles.settingCard}
+                        onPress={() => router.push('/currencies')}
+                    >
                         <Text style={styles.settingTitle}>💰 Currency</Text>
-                        <Text style={styles.settingValue}>Malaysian Ringgit (MYR)</Text>
-                    </View>
+                        <Text style={styles.settingValue}>
+                            {getCurrencyInfo(homeCurrency).name} ({homeCurrency}) • Exchange rates
+                        </Text>
+                    </TouchableOpacity>
 
-                    <View style={styles.settingCard}>
+                    <TouchableOpacity
+                        style={styles.settingCard}
+                        onPress={() => router.push('/timezone')}
+                    >
                         <Text style={styles.settingTitle}>🌍 Timezone</Text>
-                        <Text style={styles.settingValue}>Asia/Kuala_Lumpur</Text>
-                    </View>
+                        <Text style={styles.settingValue}>{timeZone}</Text>
+                    </TouchableOpacity>
 
                     <View style={styles.settingCard}>
                         <Text style={styles.settingTitle}>🔔 Notifications</Text>
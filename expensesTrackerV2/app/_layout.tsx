@@ -7,7 +7,9 @@ import { View, ActivityIndicator, Text } from 'react-native';
 import auth, { FirebaseAuthTypes } from '@react-native-firebase/auth';
 import 'react-native-reanimated';
 
+import { AppDataProvider } from '@/components/AppDataProvider';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { startSyncQueue } from '@/services/syncQueue';
 
 // Create an authentication context
 export const AuthContext = React.createContext<{
@@ -39,6 +41,9 @@ export default function RootLayout() {
     return subscriber; // unsubscribe on unmount
   }, []);
 
+  // Replay changes saved while offline whenever the connection comes back
+  useEffect(() => startSyncQueue(), []);
+
   if (!loaded || initializing) {
     return (
       <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', backgroundColor: '#f8f9fa' }}>
@@ -52,14 +57,19 @@ export default function RootLayout() {
 
   return (
     <AuthContext.Provider value={{ user, initializing }}>
-      <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
-        <Stack screenOptions={{ headerShown: false }}>
-          <Stack.Screen name="(tabs)" />
-          <Stack.Screen name="auth" />
-          <Stack.Screen name="+not-found" />
-        </Stack>
-        <StatusBar style="auto" />
-      </ThemeProvider>
+      <AppDataProvider user={user}>
+        <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+          <Stack screenOptions={{ headerShown: false }}>
+            <Stack.Screen name="(tabs)" />
+            <Stack.Screen name="auth" />
+            <Stack.Screen name="categories" />
+            <Stack.Screen name="currencies" />
+            <Stack.Screen name="timezone" />
+            <Stack.Screen name="+not-found" />
+          </Stack>
+          <StatusBar style="auto" />
+        </ThemeProvider>
+      </AppDataProvider>
     </AuthContext.Provider>
   );
 }
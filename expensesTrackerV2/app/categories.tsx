@@ -0,0 +1,490 @@
+import React, { useContext, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    TextInput,
+    Alert,
+    ActivityIndicator,
+    Modal
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+
+import { AuthContext } from './_layout';
+import { useCategories } from '@/hooks/useCategories';
+import {
+    Category,
+    CategoryFields,
+    categoryColors,
+    createCategory,
+    reorderCategories,
+    setCategoryArchived,
+    updateCategory
+} from '@/services/categories';
+
+const emptyForm: CategoryFields = { name: '', icon: '📦', color: categoryColors[0] };
+
+export default function CategoriesScreen() {
+    const { user } = useContext(AuthContext);
+    const { categories, activeCategories } = useCategories();
+    const archivedCategories = categories.filter(category => category.archived);
+
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [showEditor, setShowEditor] = useState(false);
+    const [form, setForm] = useState<CategoryFields>(emptyForm);
+    const [saving, setSaving] = useState(false);
+
+    const openCreate = () => {
+        setEditingId(null);
+        setForm(emptyForm);
+        setShowEditor(true);
+    };
+
+    const openEdit = (category: Category) => {
+        setEditingId(category.id);
+        setForm({ name: category.name, icon: category.icon, color: category.color });
+        setShowEditor(true);
+    };
+
+    const saveCategory = async () => {
+        if (!user) return;
+
+        if (!form.name.trim()) {
+            Alert.alert('Error', 'Please enter a category name');
+            return;
+        }
+
+        if (!form.icon.trim()) {
+            Alert.alert('Error', 'Please enter an icon');
+            return;
+        }
+
+        setSaving(true);
+        try {
+            if (editingId) {
+                await updateCategory(user.uid, editingId, form);
+            } else {
+                await createCategory(user.uid, form, categories);
+            }
+            setShowEditor(false);
+        } catch (error: any) {
+            console.error('Error saving category:', error);
+            Alert.alert('Error', `Failed to save category: ${error.message}`);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toggleArchived = async (category: Category) => {
+        if (!user) return;
+
+        try {
+            await setCategoryArchived(user.uid, category.id, !category.archived);
+        } catch (error) {
+            console.error('Error archiving category:', error);
+            Alert.alert('Error', 'Failed to update category');
+        }
+    };
+
+    const confirmArchive = (category: Category) => {
+        Alert.alert(
+            'Archive Category',
+            `Hide "${category.name}" from category pickers? Existing expenses and budgets keep it.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Archive', style: 'destructive', onPress: () => toggleArchived(category) }
+            ]
+        );
+    };
+
+    const moveCategory = async (index: number, direction: -1 | 1) => {
+        if (!user) return;
+
+        const target = index + direction;
+        if (target < 0 || target >= activeCategories.length) return;
+
+        const ordered = [...activeCategories];
+        [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+
+        try {
+            // Archived categories keep their place after the active ones
+            await reorderCategories(user.uid, [...ordered, ...archivedCategories].map(category => category.id));
+        } catch (error) {
+            console.error('Error reordering categories:', error);
+            Alert.alert('Error', 'Failed to reorder categories');
+        }
+    };
+
+    const renderCategoryRow = (category: Category, index: number) => (
+        <View key={category.id} style={styles.categoryRow}>
+            <View style={[styles.iconBadge, { backgroundColor: category.color }]}>
+                <Text style={styles.iconText}>{category.icon}</Text>
+            </View>
+            <Text style={[styles.categoryName, category.archived && styles.archivedName]} numberOfLines={1}>
+                {category.name}
+            </Text>
+
+            {category.archived ? (
+                <TouchableOpacity style={styles.restoreButton} onPress={() => toggleArchived(category)}>
+                    <Text style={styles.restoreButtonText}>Restore</Text>
+                </TouchableOpacity>
+            ) : (
+                <View style={styles.rowActions}>
+                    <TouchableOpacity
+                        style={styles.rowButton}
+                        onPress={() => moveCategory(index, -1)}
+                        disabled={index === 0}
+                    >
+                        <Text style={[styles.rowButtonText, index === 0 && styles.disabledText]}>↑</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                        style={styles.rowButton}
+                        onPress={() => moveCategory(index, 1)}
+                        disabled={index === activeCategories.length - 1}
+                    >
+                        <Text style={[styles.rowButtonText, index === activeCategories.length - 1 && styles.disabledText]}>↓</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.rowButton} onPress={() => openEdit(category)}>
+                        <Text style={styles.rowButtonText}>✏️</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.rowButton} onPress={() => confirmArchive(category)}>
+                        <Text style={styles.rowButtonText}>🗄️</Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+        </View>
+    );
+
+    if (!user) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <View style={styles.centerContainer}>
+                    <Text style={styles.loginPrompt}>Please login to manage your categories</Text>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+                    <Text style={styles.headerButtonText}>‹ Back</Text>
+                </TouchableOpacity>
+                <Text style={styles.title}>🏷️ Categories</Text>
+                <TouchableOpacity onPress={openCreate} style={styles.headerButton}>
+                    <Text style={[styles.headerButtonText, styles.headerButtonRight]}>➕ Add</Text>
+                </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+                <Text style={styles.sectionTitle}>Active</Text>
+                <View style={styles.card}>
+                    {activeCategories.map(renderCategoryRow)}
+                </View>
+
+                {archivedCategories.length > 0 && (
+                    <>
+                        <Text style={styles.sectionTitle}>Archived</Text>
+                        <Text style={styles.sectionHint}>
+                            Archived categories are hidden from pickers but still shown on existing expenses and budgets.
+                        </Text>
+                        <View style={styles.card}>
+                            {archivedCategories.map(renderCategoryRow)}
+                        </View>
+                    </>
+                )}
+            </ScrollView>
+
+            {/* Create / Edit Modal */}
+            <Modal
+                visible={showEditor}
+                animationType="slide"
+                presentationStyle="pageSheet"
+                onRequestClose={() => setShowEditor(false)}
+            >
+                <SafeAreaView style={styles.modalContainer}>
+                    <View style={styles.modalHeader}>
+                        <TouchableOpacity
+                            onPress={() => setShowEditor(false)}
+                            style={styles.modalCloseButton}
+                        >
+                            <Text style={styles.modalCloseText}>Cancel</Text>
+                        </TouchableOpacity>
+                        <Text style={styles.modalTitle}>{editingId ? 'Edit Category' : 'New Category'}</Text>
+                        <View style={styles.modalPlaceholder} />
+                    </View>
+
+                    <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+                        <View style={styles.formSection}>
+                            <Text style={styles.formLabel}>Name</Text>
+                            <TextInput
+                                style={styles.input}
+                                value={form.name}
+                                onChangeText={(text) => setForm({ ...form, name: text })}
+                                placeholder="e.g. Coffee"
+                                placeholderTextColor="#999"
+                            />
+                        </View>
+
+                        <View style={styles.formSection}>
+                            <Text style={styles.formLabel}>Icon</Text>
+                            <TextInput
+                                style={[styles.input, styles.iconInput]}
+                                value={form.icon}
+                                onChangeText={(text) => setForm({ ...form, icon: text })}
+                                placeholder="☕"
+                                maxLength={4}
+                            />
+                        </View>
+
+                        <View style={styles.formSection}>
+                            <Text style={styles.formLabel}>Color</Text>
+                            <View style={styles.colorGrid}>
+                                {categoryColors.map(color => (
+                                    <TouchableOpacity
+                                        key={color}
+                                        style={[
+                                            styles.colorSwatch,
+                                            { backgroundColor: color },
+                                            form.color === color && styles.selectedSwatch
+                                        ]}
+                                        onPress={() => setForm({ ...form, color })}
+                                    />
+                                ))}
+                            </View>
+                        </View>
+
+                        <TouchableOpacity
+                            style={[styles.saveButton, saving && styles.disabledButton]}
+                            onPress={saveCategory}
+                            disabled={saving}
+                        >
+                            {saving ? (
+                                <ActivityIndicator color="#fff" size="small" />
+                            ) : (
+                                <Text style={styles.saveButtonText}>Save Category</Text>
+                            )}
+                        </TouchableOpacity>
+                    </ScrollView>
+                </SafeAreaView>
+            </Modal>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8f9fa',
+    },
+    centerContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    loginPrompt: {
+        fontSize: 16,
+        color: '#666',
+        textAlign: 'center',
+    },
+
+    // Header
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+    },
+    headerButton: {
+        minWidth: 70,
+    },
+    headerButtonText: {
+        fontSize: 16,
+        color: '#4285F4',
+        fontWeight: '600',
+    },
+    headerButtonRight: {
+        textAlign: 'right',
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#333',
+    },
+    scrollView: {
+        flex: 1,
+        paddingHorizontal: 20,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#333',
+        marginTop: 8,
+        marginBottom: 12,
+    },
+    sectionHint: {
+        fontSize: 12,
+        color: '#999',
+        marginBottom: 12,
+    },
+
+    // Category List
+    card: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        paddingHorizontal: 16,
+        marginBottom: 20,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+    },
+    categoryRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 0.5,
+        borderBottomColor: '#f0f0f0',
+    },
+    iconBadge: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginRight: 12,
+    },
+    iconText: {
+        fontSize: 20,
+    },
+    categoryName: {
+        flex: 1,
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#333',
+    },
+    archivedName: {
+        color: '#999',
+    },
+    rowActions: {
+        flexDirection: 'row',
+        gap: 4,
+    },
+    rowButton: {
+        padding: 6,
+    },
+    rowButtonText: {
+        fontSize: 16,
+        color: '#4285F4',
+        fontWeight: '600',
+    },
+    disabledText: {
+        color: '#ccc',
+    },
+    restoreButton: {
+        backgroundColor: '#4285F4',
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 8,
+    },
+    restoreButtonText: {
+        color: '#fff',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+
+    // Modal Styles
+    modalContainer: {
+        flex: 1,
+        backgroundColor: '#f8f9fa',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        padding: 20,
+        borderBottomWidth: 1,
+        borderBottomColor: '#e1e5e9',
+        backgroundColor: '#fff',
+    },
+    modalCloseButton: {
+        minWidth: 60,
+    },
+    modalCloseText: {
+        fontSize: 16,
+        color: '#4285F4',
+    },
+    modalTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#333',
+    },
+    modalPlaceholder: {
+        minWidth: 60,
+    },
+    modalContent: {
+        flex: 1,
+        padding: 20,
+    },
+
+    // Form Styles
+    formSection: {
+        marginBottom: 24,
+    },
+    formLabel: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#333',
+        marginBottom: 12,
+    },
+    input: {
+        borderWidth: 2,
+        borderColor: '#e1e5e9',
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 14,
+        fontSize: 16,
+        backgroundColor: '#fff',
+    },
+    iconInput: {
+        fontSize: 28,
+        textAlign: 'center',
+        width: 80,
+    },
+    colorGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 12,
+    },
+    colorSwatch: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+    },
+    selectedSwatch: {
+        borderWidth: 3,
+        borderColor: '#333',
+    },
+    saveButton: {
+        backgroundColor: '#34C759',
+        paddingVertical: 16,
+        borderRadius: 12,
+        alignItems: 'center',
+        marginTop: 24,
+    },
+    disabledButton: {
+        opacity: 0.6,
+    },
+    saveButtonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
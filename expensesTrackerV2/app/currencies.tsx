@@ -0,0 +1,242 @@
+import React, { useContext, useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    TextInput,
+    Alert
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+
+import { AuthContext } from './_layout';
+import { useAppData } from '@/hooks/useAppData';
+import { getExchangeRate, setExchangeRate } from '@/services/exchangeRates';
+import { currencies } from '@/services/money';
+import { updateHomeCurrency } from '@/services/preferences';
+
+export default function CurrenciesScreen() {
+    const { user } = useContext(AuthContext);
+    const { homeCurrency, exchangeRates } = useAppData();
+    const foreignCurrencies = currencies.filter(currency => currency.code !== homeCurrency);
+
+    // Rates as typed, keyed by currency code; saved when editing ends
+    const [rateInputs, setRateInputs] = useState<Record<string, string>>({});
+
+    useEffect(() => {
+        const inputs: Record<string, string> = {};
+        currencies.forEach(currency => {
+            const rate = getExchangeRate(exchangeRates, currency.code, homeCurrency);
+            inputs[currency.code] = rate === null ? '' : parseFloat(rate.toFixed(4)).toString();
+        });
+        setRateInputs(inputs);
+    }, [exchangeRates, homeCurrency]);
+
+    const selectHomeCurrency = async (code: string) => {
+        if (!user || code === homeCurrency) return;
+
+        try {
+            await updateHomeCurrency(user.uid, code);
+        } catch (error: any) {
+            console.error('Error updating home currency:', error);
+            Alert.alert('Error', `Failed to update currency: ${error.message}`);
+        }
+    };
+
+    const saveRate = async (code: string) => {
+        const rate = parseFloat(rateInputs[code]);
+        if (!rate || rate <= 0) {
+            Alert.alert('Error', 'Please enter a valid exchange rate');
+            return;
+        }
+
+        try {
+            await setExchangeRate(code, rate, homeCurrency);
+        } catch (error: any) {
+            console.error('Error saving exchange rate:', error);
+            Alert.alert('Error', `Failed to save exchange rate: ${error.message}`);
+        }
+    };
+
+    if (!user) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <View style={styles.centerContainer}>
+                    <Text style={styles.loginPrompt}>Please login to manage your currency</Text>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+                    <Text style={styles.headerButtonText}>‹ Back</Text>
+                </TouchableOpacity>
+                <Text style={styles.title}>💰 Currency</Text>
+                <View style={styles.headerButton} />
+            </View>
+
+            <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+                <Text style={styles.sectionTitle}>Home Currency</Text>
+                <Text style={styles.sectionHint}>
+                    Totals and new budgets are shown in this currency. Existing budgets keep the currency they were set in.
+                </Text>
+                <View style={styles.card}>
+                    {currencies.map(currency => (
+                        <TouchableOpacity
+                            key={currency.code}
+                            style={styles.row}
+                            onPress={() => selectHomeCurrency(currency.code)}
+                        >
+                            <Text style={styles.currencySymbol}>{currency.symbol}</Text>
+                            <Text style={styles.currencyName} numberOfLines={1}>
+                                {currency.name} ({currency.code})
+                            </Text>
+                            {currency.code === homeCurrency && <Text style={styles.checkmark}>✓</Text>}
+                        </TouchableOpacity>
+                    ))}
+                </View>
+
+                <Text style={styles.sectionTitle}>Exchange Rates</Text>
+                <Text style={styles.sectionHint}>
+                    Used to convert expenses paid in other currencies. Each expense keeps the rate it was saved with.
+                    {exchangeRates.updatedAt
+                        ? ` Last edited ${new Date(exchangeRates.updatedAt).toLocaleDateString('en-MY')}.`
+                        : ' These are starting values; update them to current rates.'}
+                </Text>
+                <View style={styles.card}>
+                    {foreignCurrencies.map(currency => (
+                        <View key={currency.code} style={styles.row}>
+                            <Text style={styles.rateLabel}>1 {currency.code} =</Text>
+                            <TextInput
+                                style={styles.rateInput}
+                                value={rateInputs[currency.code] ?? ''}
+                                onChangeText={(text) => setRateInputs({ ...rateInputs, [currency.code]: text })}
+                                onEndEditing={() => saveRate(currency.code)}
+                                keyboardType="decimal-pad"
+                                returnKeyType="done"
+                                placeholder="0.00"
+                                placeholderTextColor="#999"
+                            />
+                            <Text style={styles.rateLabel}>{homeCurrency}</Text>
+                        </View>
+                    ))}
+                </View>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8f9fa',
+    },
+    centerContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    loginPrompt: {
+        fontSize: 16,
+        color: '#666',
+        textAlign: 'center',
+    },
+
+    // Header
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+    },
+    headerButton: {
+        minWidth: 70,
+    },
+    headerButtonText: {
+        fontSize: 16,
+        color: '#4285F4',
+        fontWeight: '600',
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#333',
+    },
+    scrollView: {
+        flex: 1,
+        paddingHorizontal: 20,
+    },
+    sectionTitle: {
+        fontSize: 18,
+        fontWeight: 'bold',
+        color: '#333',
+        marginTop: 8,
+        marginBottom: 8,
+    },
+    sectionHint: {
+        fontSize: 12,
+        color: '#999',
+        marginBottom: 12,
+    },
+
+    // Currency List
+    card: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        paddingHorizontal: 16,
+        marginBottom: 20,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 0.5,
+        borderBottomColor: '#f0f0f0',
+    },
+    currencySymbol: {
+        width: 48,
+        fontSize: 16,
+        fontWeight: '700',
+        color: '#4285F4',
+    },
+    currencyName: {
+        flex: 1,
+        fontSize: 16,
+        color: '#333',
+    },
+    checkmark: {
+        fontSize: 18,
+        color: '#34C759',
+        fontWeight: 'bold',
+    },
+
+    // Exchange Rates
+    rateLabel: {
+        fontSize: 16,
+        fontWeight: '600',
+        color: '#333',
+    },
+    rateInput: {
+        flex: 1,
+        borderWidth: 2,
+        borderColor: '#e1e5e9',
+        borderRadius: 12,
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        marginHorizontal: 12,
+        fontSize: 16,
+        backgroundColor: '#fff',
+    },
+});
@@ -0,0 +1,190 @@
+import React, { useContext } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    Alert
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+
+import { AuthContext } from './_layout';
+import { useAppData } from '@/hooks/useAppData';
+import { formatTimeInZone, getDeviceTimeZone } from '@/services/periods';
+import { updateTimezone } from '@/services/preferences';
+
+// Zones offered in the list; the device's own zone is added if it is not here
+const commonTimeZones = [
+    'Asia/Kuala_Lumpur',
+    'Asia/Singapore',
+    'Asia/Jakarta',
+    'Asia/Bangkok',
+    'Asia/Manila',
+    'Asia/Hong_Kong',
+    'Asia/Tokyo',
+    'Australia/Sydney',
+    'Europe/London',
+    'Europe/Paris',
+    'America/New_York',
+    'America/Los_Angeles',
+    'UTC'
+];
+
+export default function TimezoneScreen() {
+    const { user } = useContext(AuthContext);
+    const { timeZone } = useAppData();
+    const deviceTimeZone = getDeviceTimeZone();
+    const timeZones = [...new Set([deviceTimeZone, timeZone, ...commonTimeZones])];
+    const now = new Date();
+
+    const selectTimeZone = async (zone: string) => {
+        if (!user || zone === timeZone) return;
+
+        try {
+            await updateTimezone(user.uid, zone);
+        } catch (error: any) {
+            console.error('Error updating timezone:', error);
+            Alert.alert('Error', `Failed to update timezone: ${error.message}`);
+        }
+    };
+
+    if (!user) {
+        return (
+            <SafeAreaView style={styles.container}>
+                <View style={styles.centerContainer}>
+                    <Text style={styles.loginPrompt}>Please login to manage your timezone</Text>
+                </View>
+            </SafeAreaView>
+        );
+    }
+
+    return (
+        <SafeAreaView style={styles.container}>
+            <View style={styles.header}>
+                <TouchableOpacity onPress={() => router.back()} style={styles.headerButton}>
+                    <Text style={styles.headerButtonText}>‹ Back</Text>
+                </TouchableOpacity>
+                <Text style={styles.title}>🌍 Timezone</Text>
+                <View style={styles.headerButton} />
+            </View>
+
+            <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+                <Text style={styles.sectionHint}>
+                    Daily, weekly and monthly budgets reset at midnight in this timezone, and expense
+                    dates and times are shown in it. Weeks start on Monday.
+                </Text>
+                <View style={styles.card}>
+                    {timeZones.map(zone => (
+                        <TouchableOpacity
+                            key={zone}
+                            style={styles.row}
+                            onPress={() => selectTimeZone(zone)}
+                        >
+                            <View style={styles.zoneInfo}>
+                                <Text style={styles.zoneName} numberOfLines={1}>{zone}</Text>
+                                {zone === deviceTimeZone && (
+                                    <Text style={styles.zoneHint}>This device</Text>
+                                )}
+                            </View>
+                            <Text style={styles.zoneTime}>{formatTimeInZone(now, zone)}</Text>
+                            {zone === timeZone && <Text style={styles.checkmark}>✓</Text>}
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            </ScrollView>
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8f9fa',
+    },
+    centerContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    loginPrompt: {
+        fontSize: 16,
+        color: '#666',
+        textAlign: 'center',
+    },
+
+    // Header
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+    },
+    headerButton: {
+        minWidth: 70,
+    },
+    headerButtonText: {
+        fontSize: 16,
+        color: '#4285F4',
+        fontWeight: '600',
+    },
+    title: {
+        fontSize: 22,
+        fontWeight: 'bold',
+        color: '#333',
+    },
+    scrollView: {
+        flex: 1,
+        paddingHorizontal: 20,
+    },
+    sectionHint: {
+        fontSize: 12,
+        color: '#999',
+        marginBottom: 12,
+    },
+
+    // Timezone List
+    card: {
+        backgroundColor: '#fff',
+        borderRadius: 16,
+        paddingHorizontal: 16,
+        marginBottom: 20,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.1,
+        shadowRadius: 8,
+        elevation: 4,
+    },
+    row: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 12,
+        borderBottomWidth: 0.5,
+        borderBottomColor: '#f0f0f0',
+    },
+    zoneInfo: {
+        flex: 1,
+    },
+    zoneName: {
+        fontSize: 16,
+        color: '#333',
+    },
+    zoneHint: {
+        fontSize: 12,
+        color: '#999',
+        marginTop: 2,
+    },
+    zoneTime: {
+        fontSize: 14,
+        color: '#666',
+        marginHorizontal: 12,
+    },
+    checkmark: {
+        fontSize: 18,
+        color: '#34C759',
+        fontWeight: 'bold',
+    },
+});
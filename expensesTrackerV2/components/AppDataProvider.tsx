@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FirebaseAuthTypes } from '@react-native-firebase/auth';
+
+import { Budget, subscribeToBudgets } from '@/services/budgets';
+import { Category, defaultCategories, loadBaseCategories, subscribeToCategories } from '@/services/categories';
+import { defaultExchangeRates, ExchangeRates, subscribeToExchangeRates } from '@/services/exchangeRates';
+import { Expense, subscribeToExpenses } from '@/services/expenses';
+import { runMigrations } from '@/services/migrations';
+import { defaultPreferences, subscribeToPreferences, UserPreferences } from '@/services/preferences';
+import {
+    applyPendingBudgets,
+    applyPendingExpenses,
+    subscribeToSyncQueue,
+    SyncItem
+} from '@/services/syncQueue';
+
+interface AppData {
+    // Expenses and budgets include changes still waiting in the sync queue
+    expenses: Expense[];
+    budgets: Budget[];
+    activeBudgets: Budget[];
+    categories: Category[];
+    preferences: UserPreferences;
+    // Shorthands for preferences.currency and preferences.timezone
+    homeCurrency: string;
+    timeZone: string;
+    // Stored on this device, shared by all users of it
+    exchangeRates: ExchangeRates;
+    // The signed-in user's queued local changes
+    syncItems: SyncItem[];
+    // True until the first expenses and budgets snapshot arrives
+    loading: boolean;
+}
+
+export const AppDataContext = React.createContext<AppData>({
+    expenses: [],
+    budgets: [],
+    activeBudgets: [],
+    categories: defaultCategories,
+    preferences: defaultPreferences,
+    homeCurrency: defaultPreferences.currency,
+    timeZone: defaultPreferences.timezone,
+    exchangeRates: defaultExchangeRates,
+    syncItems: [],
+    loading: true,
+});
+
+/**
+ * Keeps live Firestore listeners for the signed-in user's data so every screen
+ * renders from the same state and sees saved changes immediately.
+ */
+export function AppDataProvider({ user, children }: {
+    user: FirebaseAuthTypes.User | null;
+    children: React.ReactNode;
+}) {
+    const userId = user?.uid;
+    // null until the first snapshot for the current user arrives
+    const [serverExpenses, setServerExpenses] = useState<Expense[] | null>(null);
+    const [serverBudgets, setServerBudgets] = useState<Budget[] | null>(null);
+    const [categories, setCategories] = useState<Category[]>(defaultCategories);
+    const [preferences, setPreferences] = useState<UserPreferences>(defaultPreferences);
+    const [queue, setQueue] = useState<SyncItem[]>([]);
+    const [exchangeRates, setExchangeRates] = useState<ExchangeRates>(defaultExchangeRates);
+
+    useEffect(() => subscribeToSyncQueue(setQueue), []);
+    useEffect(() => subscribeToExchangeRates(setExchangeRates), []);
+
+    useEffect(() => {
+        // Clear the previous user's data
+        setServerExpenses(null);
+        setServerBudgets(null);
+        setCategories(defaultCategories);
+        setPreferences(defaultPreferences);
+
+        if (!userId) return;
+
+        // Older documents are still readable while this runs
+        runMigrations(userId).catch(error => console.error('Error migrating user data:', error));
+
+        const unsubscribers = [
+            subscribeToExpenses(userId, setServerExpenses, error => {
+                console.error('Error listening to expenses:', error);
+                setServerExpenses(current => current ?? []);
+            }),
+            subscribeToBudgets(userId, setServerBudgets, error => {
+                console.error('Error listening to budgets:', error);
+                setServerBudgets(current => current ?? []);
+            }),
+            subscribeToPreferences(userId, setPreferences)
+        ];
+
+        let cancelled = false;
+        loadBaseCategories().then(base => {
+            if (cancelled) return;
+            setCategories(base);
+            unsubscribers.push(subscribeToCategories(userId, base, setCategories));
+        });
+
+        return () => {
+            cancelled = true;
+            unsubscribers.forEach(unsubscribe => unsubscribe());
+        };
+    }, [userId]);
+
+    const value = useMemo(() => {
+        const syncItems = queue.filter(item => item.userId === userId);
+        const budgets = applyPendingBudgets(serverBudgets ?? [], syncItems);
+
+        return {
+            expenses: applyPendingExpenses(serverExpenses ?? [], syncItems),
+            budgets,
+            activeBudgets: budgets.filter(budget => budget.isActive),
+            categories,
+            preferences,
+            homeCurrency: preferences.currency,
+            timeZone: preferences.timezone,
+            exchangeRates,
+            syncItems,
+            loading: !!userId && (serverExpenses === null || serverBudgets === null)
+        };
+    }, [userId, queue, serverExpenses, serverBudgets, categories, preferences, exchangeRates]);
+
+    return <AppDataContext.Provider value={value}>{children}</AppDataContext.Provider>;
+}
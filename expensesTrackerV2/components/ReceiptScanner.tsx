@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    Image,
+    Modal,
+    Alert
+} from 'react-native';
+import DocumentScanner, { ScanDocumentResponseStatus } from 'react-native-document-scanner-plugin';
+
+import { MAX_RECEIPT_PAGES, ReceiptFile } from '@/services/ocr';
+
+/**
+ * Camera capture for paper receipts. The native scanner finds the receipt's edges,
+ * corrects the perspective and lets the user adjust the crop; pages collect here
+ * until the user sends them all as one receipt.
+ */
+export function ReceiptScanner({ visible, onCancel, onDone }: {
+    visible: boolean;
+    onCancel: () => void;
+    onDone: (pages: ReceiptFile[]) => void;
+}) {
+    const [pages, setPages] = useState<ReceiptFile[]>([]);
+    const [scanning, setScanning] = useState(false);
+    // Parents usually pass a new onCancel each render; the scan reads the latest through this
+    const onCancelRef = useRef(onCancel);
+    onCancelRef.current = onCancel;
+
+    const scanPages = useCallback(async (current: ReceiptFile[]) => {
+        const remaining = MAX_RECEIPT_PAGES - current.length;
+        if (remaining <= 0) {
+            Alert.alert('Page Limit', `A receipt can have up to ${MAX_RECEIPT_PAGES} pages.`);
+            return;
+        }
+
+        setScanning(true);
+        try {
+            const { scannedImages, status } = await DocumentScanner.scanDocument({
+                maxNumDocuments: remaining,
+                croppedImageQuality: 90
+            });
+
+            if (status === ScanDocumentResponseStatus.Cancel || !scannedImages?.length) {
+                // Closing the camera before the first page cancels the scan
+                if (current.length === 0) onCancelRef.current();
+                return;
+            }
+
+            const capturedAt = Date.now();
+            const scanned = scannedImages.slice(0, remaining).map((path, index) => ({
+                uri: path.startsWith('file://') ? path : `file://${path}`,
+                name: `scan-${capturedAt}-${current.length + index + 1}.jpg`,
+                mimeType: 'image/jpeg'
+            }));
+            setPages([...current, ...scanned]);
+        } catch (error: any) {
+            console.error('Error scanning receipt:', error);
+            Alert.alert('Error', `Failed to scan receipt: ${error.message}`);
+            if (current.length === 0) onCancelRef.current();
+        } finally {
+            setScanning(false);
+        }
+    }, []);
+
+    // Go straight to the camera when opened
+    useEffect(() => {
+        if (visible) {
+            setPages([]);
+            scanPages([]);
+        }
+    }, [visible, scanPages]);
+
+    const removePage = (index: number) => {
+        setPages(pages.filter((_, pageIndex) => pageIndex !== index));
+    };
+
+    return (
+        <Modal
+            visible={visible && !scanning}
+            animationType="slide"
+            transparent={true}
+            onRequestClose={onCancel}
+        >
+            <View style={styles.modalOverlay}>
+                <View style={styles.modalContent}>
+                    <View style={styles.modalHeader}>
+                        <Text style={styles.modalTitle}>📷 Scanned Pages</Text>
+                        <TouchableOpacity onPress={onCancel}>
+                            <Text style={styles.closeButton}>✕</Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    <Text style={styles.hint}>
+                        All pages are read together as one receipt. Remove a page to retake it.
+                    </Text>
+
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.pageList}>
+                        {pages.map((page, index) => (
+                            <View key={page.uri} style={styles.page}>
+                                <Image source={{ uri: page.uri }} style={styles.pageImage} resizeMode="cover" />
+                                <Text style={styles.pageNumber}>Page {index + 1}</Text>
+                                <TouchableOpacity style={styles.removeButton} onPress={() => removePage(index)}>
+                                    <Text style={styles.removeButtonText}>✕</Text>
+                                </TouchableOpacity>
+                            </View>
+                        ))}
+                    </ScrollView>
+
+                    <View style={styles.buttonContainer}>
+                        <TouchableOpacity
+                            style={[styles.button, styles.secondaryButton]}
+                            onPress={() => scanPages(pages)}
+                            disabled={pages.length >= MAX_RECEIPT_PAGES}
+                        >
+                            <Text style={styles.secondaryButtonText}>➕ Add Page</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={[styles.button, styles.primaryButton, pages.length === 0 && styles.disabledButton]}
+                            onPress={() => onDone(pages)}
+                            disabled={pages.length === 0}
+                        >
+                            <Text style={styles.buttonText}>
+                                Use {pages.length} Page{pages.length === 1 ? '' : 's'}
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    modalOverlay: {
+        flex: 1,
+        backgroundColor: 'rgba(0, 0, 0, 0.5)',
+        justifyContent: 'flex-end',
+    },
+    modalContent: {
+        backgroundColor: '#fff',
+        borderTopLeftRadius: 20,
+        borderTopRightRadius: 20,
+        padding: 20,
+        maxHeight: '80%',
+    },
+    modalHeader: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 12,
+    },
+    modalTitle: {
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#333',
+    },
+    closeButton: {
+        fontSize: 24,
+        color: '#6c757d',
+    },
+    hint: {
+        fontSize: 12,
+        color: '#999',
+        marginBottom: 16,
+    },
+
+    // Pages
+    pageList: {
+        marginBottom: 20,
+    },
+    page: {
+        marginRight: 12,
+        alignItems: 'center',
+    },
+    pageImage: {
+        width: 120,
+        height: 170,
+        borderRadius: 8,
+        backgroundColor: '#f0f0f0',
+    },
+    pageNumber: {
+        fontSize: 12,
+        color: '#666',
+        marginTop: 6,
+    },
+    removeButton: {
+        position: 'absolute',
+        top: 6,
+        right: 6,
+        width: 24,
+        height: 24,
+        borderRadius: 12,
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    removeButtonText: {
+        fontSize: 12,
+        color: '#fff',
+        fontWeight: 'bold',
+    },
+
+    // Buttons
+    buttonContainer: {
+        gap: 12,
+    },
+    button: {
+        paddingVertical: 16,
+        borderRadius: 12,
+        alignItems: 'center',
+    },
+    primaryButton: {
+        backgroundColor: '#4285F4',
+    },
+    secondaryButton: {
+        backgroundColor: '#fff',
+        borderWidth: 2,
+        borderColor: '#4285F4',
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+    buttonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+    secondaryButtonText: {
+        color: '#4285F4',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import {
+    View,
+    Text,
+    StyleSheet,
+    ScrollView,
+    TouchableOpacity,
+    Image,
+    Modal,
+    ActivityIndicator,
+    Alert,
+    Platform
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as WebBrowser from 'expo-web-browser';
+import { WebView } from 'react-native-webview';
+
+import {
+    getAttachmentLink,
+    getAttachmentSource,
+    getOCRRequestId,
+    isPDFAttachment,
+    ReceiptAttachment,
+    withRequestId
+} from '@/services/ocr';
+
+/**
+ * Full-screen view of the original receipt files saved with an expense.
+ * Photos are shown as images and PDFs in a web view, one page at a time.
+ * Both send the user's token; the browser gets a short-lived link instead.
+ */
+export function ReceiptViewer({ attachments, title, onClose }: {
+    // Null while closed
+    attachments: ReceiptAttachment[] | null;
+    title: string;
+    onClose: () => void;
+}) {
+    const [pageIndex, setPageIndex] = useState(0);
+    const [loading, setLoading] = useState(true);
+    const [failed, setFailed] = useState(false);
+    const [source, setSource] = useState<{ uri: string; headers: Record<string, string> } | null>(null);
+
+    useEffect(() => {
+        setPageIndex(0);
+    }, [attachments]);
+
+    useEffect(() => {
+        setLoading(true);
+        setFailed(false);
+        setSource(null);
+
+        const page = attachments?.[pageIndex];
+        if (!page) return;
+
+        // The token may need refreshing first; a page left in the meantime is not shown
+        let current = true;
+        getAttachmentSource(page)
+            .then(next => {
+                if (current) setSource(next);
+            })
+            .catch(error => {
+                console.error('Error loading receipt:', error);
+                if (current) setFailed(true);
+            });
+        return () => {
+            current = false;
+        };
+    }, [attachments, pageIndex]);
+
+    const attachment = attachments?.[pageIndex];
+
+    const openInBrowser = async () => {
+        if (!attachment) return;
+        try {
+            await WebBrowser.openBrowserAsync(await getAttachmentLink(attachment));
+        } catch (error: any) {
+            console.error('Error opening receipt:', error);
+            Alert.alert('Error', withRequestId(`Failed to open receipt: ${error.message}`, getOCRRequestId(error)));
+        }
+    };
+
+    const renderFailure = (message: string) => (
+        <View style={styles.centerContainer}>
+            <Text style={styles.messageText}>{message}</Text>
+            <TouchableOpacity style={styles.browserButton} onPress={openInBrowser}>
+                <Text style={styles.browserButtonText}>Open in Browser</Text>
+            </TouchableOpacity>
+        </View>
+    );
+
+    const renderPage = () => {
+        if (!attachment) return null;
+
+        if (failed) {
+            return renderFailure('This receipt could not be loaded. Check your connection and try again.');
+        }
+
+        // Android's web view cannot display PDFs, so they open in the browser there
+        if (isPDFAttachment(attachment) && Platform.OS === 'android') {
+            return renderFailure(`${attachment.filename} is a PDF.`);
+        }
+
+        if (!source) {
+            return (
+                <View style={styles.centerContainer}>
+                    <ActivityIndicator size="large" color="#4285F4" />
+                </View>
+            );
+        }
+
+        if (isPDFAttachment(attachment)) {
+            return (
+                <WebView
+                    source={source}
+                    style={styles.webView}
+                    startInLoadingState={true}
+                    onError={() => setFailed(true)}
+                    onHttpError={() => setFailed(true)}
+                />
+            );
+        }
+
+        return (
+            <View style={styles.imageContainer}>
+                <Image
+                    source={source}
+                    style={styles.image}
+                    resizeMode="contain"
+                    onLoadEnd={() => setLoading(false)}
+                    onError={() => setFailed(true)}
+                />
+                {loading && <ActivityIndicator style={styles.imageLoading} size="large" color="#4285F4" />}
+            </View>
+        );
+    };
+
+    return (
+        <Modal
+            visible={attachments !== null}
+            animationType="slide"
+            onRequestClose={onClose}
+        >
+            <SafeAreaView style={styles.container}>
+                <View style={styles.header}>
+                    <Text style={styles.title} numberOfLines={1}>🧾 {title}</Text>
+                    <TouchableOpacity onPress={onClose}>
+                        <Text style={styles.closeButton}>✕</Text>
+                    </TouchableOpacity>
+                </View>
+
+                {attachments && attachments.length > 1 && (
+                    <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        style={styles.pageTabs}
+                        contentContainerStyle={styles.pageTabsContent}
+                    >
+                        {attachments.map((page, index) => (
+                            <TouchableOpacity
+                                key={page.id}
+                                style={[styles.pageTab, index === pageIndex && styles.pageTabActive]}
+                                onPress={() => setPageIndex(index)}
+                            >
+                                <Text style={[styles.pageTabText, index === pageIndex && styles.pageTabTextActive]}>
+                                    Page {index + 1}
+                                </Text>
+                            </TouchableOpacity>
+                        ))}
+                    </ScrollView>
+                )}
+
+                <View style={styles.body}>{renderPage()}</View>
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+        backgroundColor: '#f8f9fa',
+    },
+    centerContainer: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        padding: 20,
+    },
+    messageText: {
+        fontSize: 16,
+        color: '#666',
+        textAlign: 'center',
+        marginBottom: 16,
+    },
+
+    // Header
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingHorizontal: 20,
+        paddingVertical: 16,
+        gap: 12,
+    },
+    title: {
+        flex: 1,
+        fontSize: 20,
+        fontWeight: 'bold',
+        color: '#333',
+    },
+    closeButton: {
+        fontSize: 24,
+        color: '#6c757d',
+    },
+
+    // Pages
+    pageTabs: {
+        flexGrow: 0,
+        marginBottom: 12,
+    },
+    pageTabsContent: {
+        paddingHorizontal: 20,
+        gap: 8,
+    },
+    pageTab: {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 16,
+        backgroundColor: '#fff',
+        borderWidth: 1,
+        borderColor: '#e9ecef',
+    },
+    pageTabActive: {
+        backgroundColor: '#4285F4',
+        borderColor: '#4285F4',
+    },
+    pageTabText: {
+        fontSize: 14,
+        color: '#333',
+        fontWeight: '500',
+    },
+    pageTabTextActive: {
+        color: '#fff',
+    },
+    body: {
+        flex: 1,
+    },
+    webView: {
+        flex: 1,
+    },
+    imageContainer: {
+        flex: 1,
+        justifyContent: 'center',
+    },
+    image: {
+        flex: 1,
+    },
+    imageLoading: {
+        position: 'absolute',
+        alignSelf: 'center',
+    },
+
+    // Buttons
+    browserButton: {
+        backgroundColor: '#4285F4',
+        paddingVertical: 12,
+        paddingHorizontal: 24,
+        borderRadius: 12,
+    },
+    browserButtonText: {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
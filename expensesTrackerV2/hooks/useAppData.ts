@@ -0,0 +1,11 @@
+import { useContext } from 'react';
+
+import { AppDataContext } from '@/components/AppDataProvider';
+
+/**
+ * The signed-in user's expenses, budgets, categories and preferences, kept live
+ * by the AppDataProvider in the root layout.
+ */
+export function useAppData() {
+    return useContext(AppDataContext);
+}
@@ -0,0 +1,23 @@
+import { useMemo } from 'react';
+
+import { useAppData } from '@/hooks/useAppData';
+import { getCategoryInfo } from '@/services/categories';
+
+/**
+ * The signed-in user's categories, kept up to date as they are edited.
+ * `activeCategories` excludes archived ones and is what pickers should offer.
+ */
+export function useCategories() {
+    const { categories } = useAppData();
+
+    const activeCategories = useMemo(
+        () => categories.filter(category => !category.archived),
+        [categories]
+    );
+
+    return {
+        categories,
+        activeCategories,
+        getCategory: (categoryId: string) => getCategoryInfo(categories, categoryId)
+    };
+}
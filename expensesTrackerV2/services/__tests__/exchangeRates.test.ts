@@ -0,0 +1,34 @@
+import { ExchangeRates, getExchangeRate, setExchangeRate, subscribeToExchangeRates } from '@/services/exchangeRates';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+const latestRates = () => new Promise<ExchangeRates>(resolve => {
+    const unsubscribe = subscribeToExchangeRates(rates => {
+        unsubscribe();
+        resolve(rates);
+    });
+});
+
+describe('setExchangeRate', () => {
+    it('sets a foreign rate as seen from the home currency', async () => {
+        await setExchangeRate('SGD', 3.5, 'MYR');
+
+        const table = await latestRates();
+        expect(getExchangeRate(table, 'SGD', 'MYR')).toBeCloseTo(3.5);
+    });
+
+    it('keeps an edit of the base currency when another currency is home', async () => {
+        const before = await latestRates();
+        const usdPerEUR = getExchangeRate(before, 'EUR', 'USD');
+
+        // With USD as home, MYR is shown as a foreign rate
+        await setExchangeRate('MYR', 0.25, 'USD');
+
+        const table = await latestRates();
+        expect(table.base).toBe('MYR');
+        expect(getExchangeRate(table, 'MYR', 'USD')).toBeCloseTo(0.25);
+        // Other currencies keep their value against the home currency
+        expect(getExchangeRate(table, 'EUR', 'USD')).toBeCloseTo(usdPerEUR!);
+    });
+});
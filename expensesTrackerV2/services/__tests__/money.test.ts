@@ -0,0 +1,35 @@
+import { detectCurrency, parseMoney } from '@/services/money';
+
+describe('detectCurrency', () => {
+    it.each([
+        ['MYR12.50', 'MYR'],
+        ['MYR 12.50', 'MYR'],
+        ['12.50MYR', 'MYR'],
+        ['RM12.50', 'MYR'],
+        ['SGD8.00', 'SGD'],
+        ['Total: USD1,250.00', 'USD'],
+        ['S$ 8.00', 'SGD'],
+        ['RMB88', 'CNY']
+    ])('finds the currency in %p', (text, currency) => {
+        expect(detectCurrency(text)).toBe(currency);
+    });
+
+    it.each(['12.50', 'MYRA 12.50', 'EURO 5'])('finds none in %p', text => {
+        expect(detectCurrency(text)).toBeNull();
+    });
+});
+
+describe('parseMoney', () => {
+    it.each([
+        ['12.5', 1250],
+        ['RM 1,234.56', 123456],
+        ['MYR12.50', 1250],
+        ['0.125', 13]
+    ])('reads %p', (text, cents) => {
+        expect(parseMoney(text)).toEqual({ cents, currency: 'MYR' });
+    });
+
+    it.each(['', 'RM', '-5', ' -5.00', 'RM -12.50', 'MYR-12.50', '−5', '5.00-'])('rejects %p', text => {
+        expect(parseMoney(text)).toBeNull();
+    });
+});
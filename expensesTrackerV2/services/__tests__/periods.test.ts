@@ -0,0 +1,112 @@
+import {
+    getCalendarDay,
+    getISOWeek,
+    getPeriodKey,
+    getTimeOfDay,
+    parseCalendarDay,
+    parseTimeOfDay,
+    zonedTimeToDate
+} from '@/services/periods';
+
+describe('getISOWeek', () => {
+    it('puts the first days of a year in the last week of the year before', () => {
+        expect(getISOWeek({ year: 2021, month: 1, day: 1 })).toEqual({ year: 2020, week: 53 });
+        expect(getISOWeek({ year: 2021, month: 1, day: 3 })).toEqual({ year: 2020, week: 53 });
+        expect(getISOWeek({ year: 2021, month: 1, day: 4 })).toEqual({ year: 2021, week: 1 });
+    });
+
+    it('puts the last days of a year in week 1 of the next year', () => {
+        expect(getISOWeek({ year: 2024, month: 12, day: 29 })).toEqual({ year: 2024, week: 52 });
+        expect(getISOWeek({ year: 2024, month: 12, day: 30 })).toEqual({ year: 2025, week: 1 });
+        expect(getPeriodKey('weekly', { year: 2024, month: 12, day: 31 })).toBe('2025-W01');
+    });
+});
+
+describe('getCalendarDay', () => {
+    it('gives the Kuala Lumpur day of an early-morning time that is still the previous day in UTC', () => {
+        // 01:30 on 10 March in Kuala Lumpur (UTC+8)
+        const date = new Date('2024-03-09T17:30:00Z');
+
+        expect(getCalendarDay(date, 'Asia/Kuala_Lumpur')).toEqual({ year: 2024, month: 3, day: 10 });
+        expect(getTimeOfDay(date, 'Asia/Kuala_Lumpur')).toEqual({ hour: 1, minute: 30 });
+        expect(getCalendarDay(date, 'UTC')).toEqual({ year: 2024, month: 3, day: 9 });
+    });
+
+    it('gives the next year at a few minutes past midnight on New Year', () => {
+        const date = new Date('2024-12-31T16:05:00Z');
+
+        expect(getCalendarDay(date, 'Asia/Kuala_Lumpur')).toEqual({ year: 2025, month: 1, day: 1 });
+        expect(getPeriodKey('monthly', getCalendarDay(date, 'Asia/Kuala_Lumpur'))).toBe('2025-01');
+    });
+});
+
+describe('zonedTimeToDate', () => {
+    it('uses the offset in force on each side of a spring-forward change', () => {
+        // New York moved from EST (UTC-5) to EDT (UTC-4) at 02:00 on 10 March 2024
+        const day = { year: 2024, month: 3, day: 10 };
+
+        expect(zonedTimeToDate(day, { hour: 1, minute: 30 }, 'America/New_York').toISOString()).toBe('2024-03-10T06:30:00.000Z');
+        expect(zonedTimeToDate(day, { hour: 3, minute: 30 }, 'America/New_York').toISOString()).toBe('2024-03-10T07:30:00.000Z');
+    });
+
+    it('uses the offset in force on each side of a fall-back change', () => {
+        // London moved from BST (UTC+1) to GMT at 02:00 on 27 October 2024
+        const day = { year: 2024, month: 10, day: 27 };
+
+        expect(zonedTimeToDate(day, { hour: 0, minute: 30 }, 'Europe/London').toISOString()).toBe('2024-10-26T23:30:00.000Z');
+        expect(zonedTimeToDate(day, { hour: 2, minute: 30 }, 'Europe/London').toISOString()).toBe('2024-10-27T02:30:00.000Z');
+    });
+
+    it('gives back the wall-clock time it was given', () => {
+        const day = { year: 2024, month: 3, day: 31 };
+        const date = zonedTimeToDate(day, { hour: 4, minute: 15 }, 'Europe/London');
+
+        expect(getCalendarDay(date, 'Europe/London')).toEqual(day);
+        expect(getTimeOfDay(date, 'Europe/London')).toEqual({ hour: 4, minute: 15 });
+    });
+});
+
+describe('parseCalendarDay', () => {
+    it('reads a YYYY-MM-DD date', () => {
+        expect(parseCalendarDay(' 2024-02-29 ')).toEqual({ year: 2024, month: 2, day: 29 });
+    });
+
+    it.each([
+        '',
+        'today',
+        '2024-2-9',
+        '15/01/2024',
+        '2024-01-15T10:00',
+        '2023-02-29',
+        '2024-02-30',
+        '2024-13-01',
+        '2024-00-10'
+    ])('rejects %p', text => {
+        expect(parseCalendarDay(text)).toBeNull();
+    });
+});
+
+describe('parseTimeOfDay', () => {
+    it.each([
+        ['14:30', { hour: 14, minute: 30 }],
+        ['14:30:05', { hour: 14, minute: 30 }],
+        ['2:30 PM', { hour: 14, minute: 30 }],
+        ['12:05 am', { hour: 0, minute: 5 }],
+        ['12:05 p.m.', { hour: 12, minute: 5 }]
+    ])('reads %p', (text, time) => {
+        expect(parseTimeOfDay(text)).toEqual(time);
+    });
+
+    it.each([
+        '',
+        'noon',
+        '1430',
+        '24:00',
+        '12:60',
+        '0:15 AM',
+        '13:00 PM',
+        '2:5'
+    ])('rejects %p', text => {
+        expect(parseTimeOfDay(text)).toBeNull();
+    });
+});
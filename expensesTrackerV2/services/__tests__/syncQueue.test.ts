@@ -0,0 +1,145 @@
+import NetInfo from '@react-native-community/netinfo';
+
+import { extractReceipt } from '@/services/ocr';
+import { discardSyncItem, enqueue, getSyncQueue, processQueue } from '@/services/syncQueue';
+
+// Firestore as the server sees it: documents by path, with updatedAt set by the server clock
+const mockServer = new Map<string, Record<string, any>>();
+let mockClock = 1000;
+
+jest.mock('@react-native-firebase/firestore', () => {
+    const SERVER_TIMESTAMP = { serverTimestamp: true };
+    const timestamp = (ms: number) => ({ toMillis: () => ms });
+    const resolveFields = (data: Record<string, any>) => Object.fromEntries(Object.entries(data).map(([key, value]) =>
+        [key, value === SERVER_TIMESTAMP ? timestamp(mockClock += 1000) : value]));
+
+    const doc = (path: string) => ({
+        get: async () => ({ exists: () => mockServer.has(path), data: () => mockServer.get(path) }),
+        set: async (data: Record<string, any>) => {
+            mockServer.set(path, resolveFields(data));
+        },
+        update: async (data: Record<string, any>) => {
+            mockServer.set(path, { ...mockServer.get(path), ...resolveFields(data) });
+        },
+        delete: async () => {
+            mockServer.delete(path);
+        }
+    });
+    const firestore = () => ({
+        collection: (name: string) => ({ doc: (id: string) => doc(`${name}/${id}`) })
+    });
+
+    return {
+        __esModule: true,
+        default: Object.assign(firestore, {
+            Timestamp: { fromMillis: timestamp },
+            FieldValue: { serverTimestamp: () => SERVER_TIMESTAMP }
+        })
+    };
+});
+
+jest.mock('@react-native-firebase/auth', () => ({
+    __esModule: true,
+    default: () => ({ currentUser: { uid: 'user-1' }, onAuthStateChanged: jest.fn() })
+}));
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+    jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'));
+
+jest.mock('@react-native-community/netinfo', () => jest.requireActual('@react-native-community/netinfo/jest/netinfo-mock.js'));
+
+jest.mock('expo-file-system', () => ({ documentDirectory: 'file:///documents/' }));
+
+jest.mock('@/services/ocr', () => ({
+    deleteReceiptAttachments: jest.fn(),
+    describeOCRLimit: jest.fn(),
+    extractReceipt: jest.fn(),
+    getOCRLimit: jest.fn(() => null)
+}));
+
+const setOnline = (online: boolean) => {
+    jest.mocked(NetInfo.fetch).mockResolvedValue({ isConnected: online, isInternetReachable: online } as any);
+};
+
+// Lets the processQueue started by enqueue see it is offline and return
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('processQueue', () => {
+    const expensePath = 'expenses/expense-1';
+
+    beforeEach(async () => {
+        for (const item of await getSyncQueue()) {
+            await discardSyncItem(item.id);
+        }
+        // Firestore writes race a 15 s timeout that would otherwise keep Jest running
+        jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+        mockServer.set(expensePath, {
+            merchantName: 'Old Town',
+            description: '',
+            updatedAt: { toMillis: () => 1000 }
+        });
+        setOnline(false);
+    });
+
+    it('applies two edits of the same expense made in a row while offline', async () => {
+        // Both edits start from the version the device last saw
+        await enqueue({ type: 'updateExpense', expenseId: 'expense-1', changes: { merchantName: 'Old Town White Coffee' }, baseUpdatedAtMs: 1000 });
+        await enqueue({ type: 'updateExpense', expenseId: 'expense-1', changes: { description: 'Lunch' }, baseUpdatedAtMs: 1000 });
+        await settle();
+
+        setOnline(true);
+        await processQueue();
+
+        expect(await getSyncQueue()).toEqual([]);
+        expect(mockServer.get(expensePath)).toMatchObject({ merchantName: 'Old Town White Coffee', description: 'Lunch' });
+    });
+
+    it('keeps both of two items queued at the same time', async () => {
+        await Promise.all([
+            enqueue({ type: 'updateExpense', expenseId: 'expense-1', changes: { description: 'Lunch' }, baseUpdatedAtMs: 1000 }),
+            enqueue({ type: 'deactivateBudget', budgetId: 'budget-1' })
+        ]);
+        await settle();
+
+        expect((await getSyncQueue()).map(item => item.operation.type)).toEqual(['updateExpense', 'deactivateBudget']);
+    });
+
+    it('keeps an edit as a conflict when another device changed the expense since', async () => {
+        await enqueue({ type: 'updateExpense', expenseId: 'expense-1', changes: { description: 'Lunch' }, baseUpdatedAtMs: 1000 });
+        await settle();
+
+        mockServer.set(expensePath, {
+            ...mockServer.get(expensePath),
+            description: 'Dinner',
+            updatedAt: { toMillis: () => mockClock += 1000 },
+            updatedOnDevice: 'another-device'
+        });
+        setOnline(true);
+        await processQueue();
+
+        const items = await getSyncQueue();
+        expect(items.at(-1)).toMatchObject({ status: 'conflict', lastError: 'This expense was changed on another device' });
+        expect(mockServer.get(expensePath)?.description).toBe('Dinner');
+    });
+
+    it('sends an item queued while an earlier item is still being sent', async () => {
+        let finishReceipt: (response: any) => void = () => {};
+        jest.mocked(extractReceipt).mockReturnValueOnce(new Promise(resolve => {
+            finishReceipt = resolve;
+        }));
+        setOnline(true);
+
+        await enqueue({ type: 'processReceipt', files: [{ uri: 'file:///documents/receipt.jpg', name: 'receipt.jpg', mimeType: 'image/jpeg' }] });
+        await settle();
+        expect(extractReceipt).toHaveBeenCalled();
+
+        await enqueue({ type: 'updateExpense', expenseId: 'expense-1', changes: { description: 'Lunch' }, baseUpdatedAtMs: 1000 });
+        finishReceipt({ text: '' });
+        for (let i = 0; i < 10; i++) {
+            await settle();
+        }
+
+        expect(await getSyncQueue()).toEqual([]);
+        expect(mockServer.get(expensePath)?.description).toBe('Lunch');
+    });
+});
@@ -0,0 +1,120 @@
+import auth from '@react-native-firebase/auth';
+
+import { AnalyzedReceipt, BatchResponse, CategoryOption, ErrorResponse, ReceiptJob, ReceiptLink } from '@/services/apiTypes';
+
+/**
+ * Typed client for the receipt backend: one function per operation of its OpenAPI document
+ * (backend/openapi.json), with the request and response types generated from the backend's
+ * schema into services/apiTypes.ts. Every call sends the signed-in user's ID token and
+ * throws an ApiError for a non-2xx response.
+ */
+
+const OCR_ENDPOINT = process.env.EXPO_PUBLIC_OCR_ENDPOINT || "";
+// Other endpoints are served next to /extract-text on the same backend
+const API_BASE_URL = OCR_ENDPOINT.replace(/\/extract-text\/?$/, '');
+
+// A file picked or scanned on the device
+export interface UploadFile {
+    uri: string;
+    name: string;
+    mimeType?: string;
+}
+
+// A non-2xx response: its status, the backend's ErrorResponse fields and the id the backend
+// logged the request under
+export type ApiError = Error & Omit<ErrorResponse, 'error'> & {
+    status: number;
+    requestId?: string;
+};
+
+// The backend only serves signed-in users; the SDK refreshes the ID token when it has expired
+const getAuthHeaders = async (): Promise<Record<string, string>> => {
+    const token = await auth().currentUser?.getIdToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+const toApiError = async (response: Response): Promise<ApiError> => {
+    const body: Partial<ErrorResponse> | null = await response.json().catch(() => null);
+    return Object.assign(new Error(body?.error || `HTTP error! status: ${response.status}`), {
+        status: response.status,
+        requestId: response.headers.get('X-Request-Id') ?? undefined,
+        code: body?.code,
+        details: body?.details,
+        limit: body?.limit,
+        // Seconds; proxies in front of the backend may only send the header
+        retryAfter: body?.retryAfter ?? (Number(response.headers.get('Retry-After')) || undefined),
+        resetAt: body?.resetAt
+    });
+};
+
+// Throws on network failures and non-2xx responses; resolves to the parsed body (nothing for 204)
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+        ...init,
+        headers: {
+            ...init.headers,
+            ...(await getAuthHeaders()),
+        },
+    });
+    if (!response.ok) {
+        throw await toApiError(response);
+    }
+    return response.status === 204 ? (undefined as T) : response.json();
+};
+
+// Multipart body of a receipt upload. Without `categories` the backend suggests from the built-in ones.
+const receiptUpload = (field: 'file' | 'files', files: UploadFile[], categories?: CategoryOption[]): RequestInit => {
+    const formData = new FormData();
+    if (categories) {
+        formData.append('categories', JSON.stringify(categories.map(({ id, name }) => ({ id, name }))));
+    }
+    files.forEach(file => {
+        formData.append(field, {
+            uri: file.uri,
+            type: file.mimeType || 'application/pdf',
+            name: file.name,
+        } as any);
+    });
+
+    return {
+        method: 'POST',
+        body: formData,
+        headers: { 'Content-Type': 'multipart/form-data' },
+    };
+};
+
+// POST /extract-text: one receipt (a PDF, or photos as its pages), analyzed while the request waits
+export const extractText = (files: UploadFile[], categories?: CategoryOption[]) =>
+    request<AnalyzedReceipt>('/extract-text', receiptUpload('file', files, categories));
+
+// POST /extract-batch: each file is a separate receipt
+export const extractBatch = (files: UploadFile[], categories?: CategoryOption[]) =>
+    request<BatchResponse>('/extract-batch', receiptUpload('files', files, categories));
+
+// POST /jobs: like extractText, without waiting for the result
+export const submitJob = (files: UploadFile[], categories?: CategoryOption[]) =>
+    request<ReceiptJob>('/jobs', receiptUpload('file', files, categories));
+
+// GET /jobs/:id
+export const getJob = (jobId: string) =>
+    request<ReceiptJob>(`/jobs/${encodeURIComponent(jobId)}`);
+
+// DELETE /jobs/:id
+export const cancelJob = (jobId: string) =>
+    request<ReceiptJob>(`/jobs/${encodeURIComponent(jobId)}`, { method: 'DELETE' });
+
+// GET /receipts/:id, for an image or web view to load with the token in its headers
+export const getReceiptSource = async (attachmentId: string) => ({
+    uri: `${API_BASE_URL}/receipts/${encodeURIComponent(attachmentId)}`,
+    headers: await getAuthHeaders()
+});
+
+// POST /receipts/:id/link, with the link's full URL; it opens the receipt without a token until it expires
+export const createReceiptLink = async (attachmentId: string) => {
+    const link = await request<ReceiptLink>(`/receipts/${encodeURIComponent(attachmentId)}/link`, { method: 'POST' });
+    return { ...link, url: `${API_BASE_URL}${link.path}` };
+};
+
+// DELETE /receipts/:id
+export const deleteReceipt = (attachmentId: string) =>
+    request<void>(`/receipts/${encodeURIComponent(attachmentId)}`, { method: 'DELETE' });
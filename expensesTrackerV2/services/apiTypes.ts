@@ -0,0 +1,131 @@
+// Generated by backend/scripts/generate-api.mjs from backend/lib/schema.mjs. Do not edit;
+// change the schema and run `npm run generate:api` in backend/ instead.
+
+export type AnalysisField = 'referenceId' | 'date' | 'time' | 'beneficiaryName' | 'amount';
+
+// How sure the backend is of a field and the receipt text it was read from
+export interface FieldConfidence {
+    confidence: number;
+    source: string | null;
+}
+
+// A category the user can pick; the app sends these so suggestions use its own ids
+export interface CategoryOption {
+    id: string;
+    name: string;
+}
+
+export interface CategorySuggestion {
+    // One of the categories sent with the upload
+    id: string;
+    confidence: number;
+    // Shown to the user, e.g. The receipt mentions "petrol"
+    reason: string;
+}
+
+// Fields read from a receipt; null when not found
+export interface ReceiptAnalysis {
+    referenceId: string | null;
+    date: string | null;
+    time: string | null;
+    beneficiaryName: string | null;
+    // With the currency as printed, e.g. "RM 1,250.50"
+    amount: string | null;
+    // Only for the fields that were found
+    fields: {
+        referenceId?: FieldConfidence;
+        date?: FieldConfidence;
+        time?: FieldConfidence;
+        beneficiaryName?: FieldConfidence;
+        amount?: FieldConfidence;
+    };
+    // Null when nothing on the receipt points to a category
+    suggestedCategory: CategorySuggestion | null;
+}
+
+// An original receipt file the backend kept after analysis; expenses link to these
+export interface ReceiptAttachment {
+    id: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+}
+
+// A link that opens a stored receipt without a token until it expires
+export interface ReceiptLink {
+    // Of GET /receipts/{id} with the link's query parameters; relative to the API's base URL
+    path: string;
+    expiresAt: string;
+}
+
+export interface AnalyzedReceipt {
+    success: true;
+    filename: string;
+    // Number of files read as this receipt
+    pages: number;
+    extractedText: string;
+    analysis: ReceiptAnalysis;
+    // Extractor that produced the analysis, e.g. "templates:maybank2u", "groq" or "regex"; null if none found anything
+    extractor: string | null;
+    // One per uploaded file, in page order
+    attachments: ReceiptAttachment[];
+    // SHA-256 of the uploaded file(s), the same for every upload of the same file
+    contentHash: string;
+    message?: string;
+}
+
+// A receipt of a batch that could not be analyzed
+export interface FailedReceipt {
+    success: false;
+    filename: string;
+    extractedText: string;
+    error: string;
+    details?: string;
+}
+
+export interface BatchResponse {
+    success: true;
+    // In the order the files were sent
+    results: (AnalyzedReceipt | FailedReceipt)[];
+    message: string;
+}
+
+export type ReceiptJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type ReceiptJobStage = 'queued' | 'preprocessing' | 'ocr' | 'analyzing' | 'storing' | 'done';
+
+// A receipt being processed in the background
+export interface ReceiptJob {
+    id: string;
+    status: ReceiptJobStatus;
+    // Step the job is at, or was at when it failed or was cancelled
+    stage: ReceiptJobStage;
+    createdAt: string;
+    updatedAt: string;
+    // Of the request that submitted the job
+    requestId?: string;
+    // Once succeeded
+    result?: AnalyzedReceipt;
+    // Once failed
+    error?: string;
+}
+
+// Body of every 4xx and 5xx response
+export interface ErrorResponse {
+    // What went wrong, in words
+    error: string;
+    // invalid-upload, not-found, extraction-failed, internal, rate-limited, quota-exceeded, or an auth/* code such as auth/missing-token, auth/invalid-token, auth/id-token-expired and auth/invalid-link
+    code?: string;
+    details?: string;
+    // For rate-limited and quota-exceeded
+    limit?: number;
+    // Seconds until a retry can succeed, for rate-limited and quota-exceeded
+    retryAfter?: number;
+    // For rate-limited and quota-exceeded
+    resetAt?: string;
+}
+
+export interface ServerStatus {
+    message: string;
+    timestamp?: string;
+}
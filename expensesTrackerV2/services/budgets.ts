@@ -0,0 +1,109 @@
+import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+
+import { convertMoney, ExchangeRates } from '@/services/exchangeRates';
+import { Money, readMoney, sumMoney } from '@/services/money';
+import {
+    CalendarDay,
+    getCalendarDay,
+    getCurrentPeriodKey,
+    getPeriodKey,
+    PeriodType
+} from '@/services/periods';
+import { enqueue } from '@/services/syncQueue';
+
+export type BudgetType = PeriodType;
+
+export interface Budget {
+    id: string;
+    userId: string;
+    category: string;
+    budgetType: BudgetType;
+    budgetAmount: Money;
+    isActive: boolean;
+    createdAt: any;
+    updatedAt: any;
+}
+
+// The parts of an expense that count towards a budget
+export interface SpendingExpense {
+    amount: Money;
+    homeAmount?: Money;
+    category: string;
+    transactionDate: FirebaseFirestoreTypes.Timestamp;
+}
+
+// The day an expense counts as spent, in the user's timezone
+export const getExpenseDay = (expense: SpendingExpense, timeZone: string): CalendarDay =>
+    getCalendarDay(expense.transactionDate.toDate(), timeZone);
+
+// An expense's amount in `currency`: as entered, at the rate saved with it, or at the current rate
+export const getExpenseAmountIn = (expense: SpendingExpense, currency: string, rates: ExchangeRates): Money => {
+    if (expense.amount.currency === currency) return expense.amount;
+    if (expense.homeAmount?.currency === currency) return expense.homeAmount;
+    return convertMoney(expense.amount, currency, rates);
+};
+
+// Spending in a budget's current period, derived from the expenses themselves
+// rather than a stored counter so it always matches the expense history
+export const calculateBudgetSpending = (
+    budget: { category: string; budgetType: BudgetType; budgetAmount: Money },
+    expenses: SpendingExpense[],
+    rates: ExchangeRates,
+    timeZone: string
+): Money => {
+    const currency = budget.budgetAmount.currency;
+    const currentPeriod = getCurrentPeriodKey(budget.budgetType, timeZone);
+
+    const spent = expenses.filter(expense =>
+        expense.category === budget.category &&
+        getPeriodKey(budget.budgetType, getExpenseDay(expense, timeZone)) === currentPeriod
+    );
+    return sumMoney(spent.map(expense => getExpenseAmountIn(expense, currency, rates)), currency);
+};
+
+// Total spent in the current calendar month, in `currency`
+export const calculateMonthlySpending = (
+    expenses: SpendingExpense[],
+    currency: string,
+    rates: ExchangeRates,
+    timeZone: string
+): Money => {
+    const currentMonth = getCurrentPeriodKey('monthly', timeZone);
+
+    const spent = expenses.filter(expense =>
+        getPeriodKey('monthly', getExpenseDay(expense, timeZone)) === currentMonth
+    );
+    return sumMoney(spent.map(expense => getExpenseAmountIn(expense, currency, rates)), currency);
+};
+
+// Budget documents written before amounts were stored in cents hold a float
+export const readBudget = (id: string, data: Record<string, any>): Budget => ({
+    ...data,
+    id,
+    budgetAmount: readMoney(data.budgetAmount)
+}) as Budget;
+
+// Budget writes go through the sync queue like expenses; the latest change wins
+export const saveBudget = async (budgetId: string | null, data: Record<string, any>) => {
+    const id = budgetId || firestore().collection('budgets').doc().id;
+    await enqueue({ type: 'saveBudget', budgetId: id, data, isNew: !budgetId });
+    return id;
+};
+
+export const deactivateBudget = async (budgetId: string) => {
+    await enqueue({ type: 'deactivateBudget', budgetId });
+};
+
+// Live list of all of a user's budgets, including deleted (inactive) ones;
+// returns the unsubscribe function
+export const subscribeToBudgets = (
+    userId: string,
+    onChange: (budgets: Budget[]) => void,
+    onError: (error: Error) => void
+) => firestore()
+    .collection('budgets')
+    .where('userId', '==', userId)
+    .onSnapshot(
+        snapshot => onChange(snapshot.docs.map(doc => readBudget(doc.id, doc.data()))),
+        onError
+    );
@@ -0,0 +1,152 @@
+import firestore from '@react-native-firebase/firestore';
+
+export interface Category {
+    id: string;
+    name: string;
+    icon: string;
+    color: string;
+    order: number;
+    archived: boolean;
+    // False for the built-in/global categories the user has not created themselves
+    custom: boolean;
+}
+
+// The editable parts of a category
+export interface CategoryFields {
+    name: string;
+    icon: string;
+    color: string;
+}
+
+export const defaultCategories: Category[] = [
+    { id: "food-dining", name: "Food & Dining", icon: "🍽️", color: "#FF6B6B" },
+    { id: "transportation", name: "Transportation", icon: "🚗", color: "#4ECDC4" },
+    { id: "shopping", name: "Shopping", icon: "🛍️", color: "#45B7D1" },
+    { id: "entertainment", name: "Entertainment", icon: "🎬", color: "#96CEB4" },
+    { id: "bills-utilities", name: "Bills & Utilities", icon: "📄", color: "#FFEAA7" },
+    { id: "healthcare", name: "Healthcare", icon: "❤️", color: "#DDA0DD" },
+    { id: "groceries", name: "Groceries", icon: "🛒", color: "#98D8C8" },
+    { id: "other", name: "Other", icon: "📦", color: "#A8A8A8" }
+].map((category, index) => ({ ...category, order: index, archived: false, custom: false }));
+
+export const categoryColors = [
+    '#FF6B6B', '#4ECDC4', '#45B7D1', '#96CEB4', '#FFEAA7',
+    '#DDA0DD', '#98D8C8', '#FFA500', '#4285F4', '#A8A8A8'
+];
+
+const fallbackCategory = defaultCategories[defaultCategories.length - 1];
+
+// Per-user categories live under users/{uid}/categories. A document there either
+// overrides a built-in category with the same id or defines a custom one.
+const userCategoriesRef = (userId: string) =>
+    firestore().collection('users').doc(userId).collection('categories');
+
+// Built-in categories: the global `categories` collection when it has entries,
+// otherwise the defaults shipped with the app
+export const loadBaseCategories = async (): Promise<Category[]> => {
+    try {
+        const snapshot = await firestore().collection('categories').get();
+        if (!snapshot.empty) {
+            return snapshot.docs.map((doc, index) => ({
+                id: doc.id,
+                name: doc.data().name,
+                icon: doc.data().icon || '📦',
+                color: doc.data().color || fallbackCategory.color,
+                order: doc.data().order ?? index,
+                archived: false,
+                custom: false
+            }));
+        }
+    } catch (error) {
+        console.error('Error loading categories:', error);
+    }
+    return defaultCategories;
+};
+
+// Apply the user's category documents on top of the built-in list
+export const mergeCategories = (base: Category[], userDocs: { id: string; data: any }[]): Category[] => {
+    const merged = new Map(base.map(category => [category.id, category]));
+
+    userDocs.forEach(({ id, data }) => {
+        const existing = merged.get(id);
+        merged.set(id, {
+            id,
+            name: data.name ?? existing?.name ?? id,
+            icon: data.icon ?? existing?.icon ?? fallbackCategory.icon,
+            color: data.color ?? existing?.color ?? fallbackCategory.color,
+            order: data.order ?? existing?.order ?? merged.size,
+            archived: data.archived ?? false,
+            custom: !existing
+        });
+    });
+
+    return [...merged.values()].sort((a, b) => a.order - b.order);
+};
+
+// Resolve a category id stored on an expense or budget. Archived categories still
+// resolve by id, so old records keep their name and icon after a rename or archive.
+export const getCategoryInfo = (categories: Category[], categoryId: string): Category =>
+    categories.find(category => category.id === categoryId) || fallbackCategory;
+
+const slugify = (name: string) =>
+    name.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'category';
+
+export const createCategory = async (userId: string, fields: CategoryFields, categories: Category[]) => {
+    const baseId = slugify(fields.name);
+    let id = baseId;
+    let suffix = 2;
+    while (categories.some(category => category.id === id)) {
+        id = `${baseId}-${suffix++}`;
+    }
+
+    const order = categories.reduce((max, category) => Math.max(max, category.order), -1) + 1;
+
+    await userCategoriesRef(userId).doc(id).set({
+        ...fields,
+        name: fields.name.trim(),
+        order,
+        archived: false,
+        createdAt: firestore.FieldValue.serverTimestamp(),
+        updatedAt: firestore.FieldValue.serverTimestamp()
+    });
+
+    return id;
+};
+
+// Rename, recolor or re-icon. The id never changes, so expenses keep pointing at it.
+export const updateCategory = async (userId: string, categoryId: string, fields: CategoryFields) => {
+    await userCategoriesRef(userId).doc(categoryId).set({
+        ...fields,
+        name: fields.name.trim(),
+        updatedAt: firestore.FieldValue.serverTimestamp()
+    }, { merge: true });
+};
+
+export const setCategoryArchived = async (userId: string, categoryId: string, archived: boolean) => {
+    await userCategoriesRef(userId).doc(categoryId).set({
+        archived,
+        updatedAt: firestore.FieldValue.serverTimestamp()
+    }, { merge: true });
+};
+
+// Persist the order of the given ids
+export const reorderCategories = async (userId: string, orderedIds: string[]) => {
+    const batch = firestore().batch();
+    orderedIds.forEach((id, index) => {
+        batch.set(userCategoriesRef(userId).doc(id), {
+            order: index,
+            updatedAt: firestore.FieldValue.serverTimestamp()
+        }, { merge: true });
+    });
+    await batch.commit();
+};
+
+// Live category list for a user; returns the unsubscribe function
+export const subscribeToCategories = (
+    userId: string,
+    base: Category[],
+    onChange: (categories: Category[]) => void
+) => userCategoriesRef(userId).onSnapshot(
+    snapshot => onChange(mergeCategories(base, snapshot.docs.map(doc => ({ id: doc.id, data: doc.data() })))),
+    error => console.error('Error listening to categories:', error)
+);
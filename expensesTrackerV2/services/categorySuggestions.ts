@@ -0,0 +1,73 @@
+import { Category, getCategoryInfo } from '@/services/categories';
+import { normalizeText } from '@/services/duplicates';
+import { Expense } from '@/services/expenses';
+import { CategorySuggestion, OCRAnalysisResult } from '@/services/ocr';
+
+/**
+ * The category to preselect for a receipt. How the user filed earlier expenses at the
+ * same merchant wins; otherwise the backend's suggestion from the merchant name and the
+ * receipt text is used. Only categories the user can currently pick are suggested.
+ */
+
+// The user's own choices are trusted over keyword matching, even when they were mixed
+const MIN_HISTORY_CONFIDENCE = 0.6;
+const MAX_HISTORY_CONFIDENCE = 0.95;
+
+// The category most of the user's expenses at this merchant are filed under; ties go to the most recent
+const suggestFromHistory = (
+    merchantName: string,
+    expenses: Expense[],
+    categories: Category[]
+): CategorySuggestion | null => {
+    const merchant = normalizeText(merchantName);
+    if (!merchant) {
+        return null;
+    }
+
+    const pastExpenses = expenses
+        .filter(expense => normalizeText(expense.merchantName || '') === merchant)
+        .sort((a, b) => b.transactionDate.toMillis() - a.transactionDate.toMillis());
+    const counts = new Map<string, number>();
+    pastExpenses.forEach(expense => {
+        if (categories.some(category => category.id === expense.category)) {
+            counts.set(expense.category, (counts.get(expense.category) || 0) + 1);
+        }
+    });
+
+    // Map order is first-seen, i.e. most recent first, so a later tie does not replace it
+    let id = '';
+    let count = 0;
+    for (const [categoryId, categoryCount] of counts) {
+        if (categoryCount > count) {
+            id = categoryId;
+            count = categoryCount;
+        }
+    }
+    if (!id) {
+        return null;
+    }
+
+    const share = count / pastExpenses.length;
+    const categoryName = getCategoryInfo(categories, id).name;
+    return {
+        id,
+        confidence: Math.round(Math.min(MAX_HISTORY_CONFIDENCE, Math.max(MIN_HISTORY_CONFIDENCE, share)) * 100) / 100,
+        reason: count === 1
+            ? `You filed an earlier expense at ${merchantName.trim()} under ${categoryName}`
+            : `You filed ${count} earlier expenses at ${merchantName.trim()} under ${categoryName}`
+    };
+};
+
+export const suggestCategory = (
+    analysis: OCRAnalysisResult | null | undefined,
+    expenses: Expense[],
+    categories: Category[]
+): CategorySuggestion | null => {
+    const fromHistory = suggestFromHistory(analysis?.beneficiaryName || '', expenses, categories);
+    if (fromHistory) {
+        return fromHistory;
+    }
+
+    const fromReceipt = analysis?.suggestedCategory;
+    return fromReceipt && categories.some(category => category.id === fromReceipt.id) ? fromReceipt : null;
+};
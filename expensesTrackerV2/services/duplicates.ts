@@ -0,0 +1,99 @@
+import { Expense } from '@/services/expenses';
+import { Money } from '@/services/money';
+import { formatCalendarDay, getCalendarDay } from '@/services/periods';
+
+/**
+ * Spotting an expense that was already recorded, e.g. the same receipt uploaded twice.
+ * A new expense is a suspected duplicate of a saved one when any of these match:
+ * - the uploaded receipt file (content hash from the backend)
+ * - the reference ID
+ * - amount and merchant, within a few minutes (or on the same day when either has no time)
+ */
+
+// What the checks compare; new expense fields and saved expenses both provide these
+export interface ExpenseFingerprint {
+    amount: Money;
+    merchantName: string;
+    referenceId: string;
+    // Millis
+    transactionDate: number;
+    hasTransactionTime?: boolean;
+    contentHash?: string;
+}
+
+export type DuplicateReason = 'sameFile' | 'sameReference' | 'sameAmountAndMerchant';
+
+export interface SuspectedDuplicate {
+    expense: Expense;
+    reason: DuplicateReason;
+}
+
+// Payments a few minutes apart at the same merchant for the same amount are most likely one payment
+const DUPLICATE_WINDOW_MS = 10 * 60 * 1000;
+
+export const duplicateReasonText: Record<DuplicateReason, string> = {
+    sameFile: 'This receipt file was uploaded before',
+    sameReference: 'An expense with the same reference ID exists',
+    sameAmountAndMerchant: 'An expense with the same amount and merchant exists around the same time'
+};
+
+// "ABC Store Sdn. Bhd." and "abc store sdn bhd" are the same merchant
+export const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const getDayKey = (millis: number, timeZone: string) => formatCalendarDay(getCalendarDay(new Date(millis), timeZone));
+
+export const getExpenseFingerprint = (expense: Expense): ExpenseFingerprint => ({
+    amount: expense.amount,
+    merchantName: expense.merchantName,
+    referenceId: expense.referenceId,
+    transactionDate: expense.transactionDate.toMillis(),
+    hasTransactionTime: expense.hasTransactionTime,
+    contentHash: expense.contentHash
+});
+
+// Why `candidate` looks like a second copy of `existing`, or null if it does not
+export const getDuplicateReason = (
+    candidate: ExpenseFingerprint,
+    existing: ExpenseFingerprint,
+    timeZone: string
+): DuplicateReason | null => {
+    if (candidate.contentHash && candidate.contentHash === existing.contentHash) {
+        return 'sameFile';
+    }
+
+    const reference = normalizeText(candidate.referenceId || '');
+    if (reference && reference === normalizeText(existing.referenceId || '')) {
+        return 'sameReference';
+    }
+
+    const sameAmount = candidate.amount.cents === existing.amount.cents &&
+        candidate.amount.currency === existing.amount.currency;
+    const merchant = normalizeText(candidate.merchantName);
+    if (!sameAmount || !merchant || merchant !== normalizeText(existing.merchantName)) {
+        return null;
+    }
+
+    // Date-only expenses sit at midday, so only the day can be compared
+    const closeInTime = candidate.hasTransactionTime && existing.hasTransactionTime
+        ? Math.abs(candidate.transactionDate - existing.transactionDate) <= DUPLICATE_WINDOW_MS
+        : getDayKey(candidate.transactionDate, timeZone) === getDayKey(existing.transactionDate, timeZone);
+    return closeInTime ? 'sameAmountAndMerchant' : null;
+};
+
+// The saved expense a new one most likely repeats; a matching file or reference beats a matching amount
+export const findDuplicateExpense = (
+    candidate: ExpenseFingerprint,
+    expenses: Expense[],
+    timeZone: string
+): SuspectedDuplicate | null => {
+    const reasons: DuplicateReason[] = ['sameFile', 'sameReference', 'sameAmountAndMerchant'];
+    let best: SuspectedDuplicate | null = null;
+
+    for (const expense of expenses) {
+        const reason = getDuplicateReason(candidate, getExpenseFingerprint(expense), timeZone);
+        if (reason && (!best || reasons.indexOf(reason) < reasons.indexOf(best.reason))) {
+            best = { expense, reason };
+        }
+    }
+    return best;
+};
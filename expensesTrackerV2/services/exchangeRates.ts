@@ -0,0 +1,85 @@
+import { readJSON, writeJSON } from '@/services/localStore';
+import { DEFAULT_CURRENCY, Money, money } from '@/services/money';
+
+/**
+ * Exchange rates kept on the device and edited by the user. Each rate is the
+ * value of one unit of a currency in `base`, so converting between any two
+ * currencies only needs their two rates and the table survives home currency changes.
+ */
+export interface ExchangeRates {
+    base: string;
+    rates: Record<string, number>;
+    updatedAt: number | null;
+}
+
+// Rough starting values; users are expected to keep these current
+export const defaultExchangeRates: ExchangeRates = {
+    base: DEFAULT_CURRENCY,
+    rates: {
+        MYR: 1,
+        SGD: 3.3,
+        USD: 4.4,
+        EUR: 4.8,
+        GBP: 5.6,
+        AUD: 2.9,
+        THB: 0.13,
+        CNY: 0.61,
+        PHP: 0.078
+    },
+    updatedAt: null
+};
+
+const EXCHANGE_RATES_KEY = 'exchangeRates';
+
+const listeners = new Set<(rates: ExchangeRates) => void>();
+
+const loadExchangeRates = async () => {
+    const stored = await readJSON<ExchangeRates | null>(EXCHANGE_RATES_KEY, null);
+    return stored
+        ? { ...stored, rates: { ...defaultExchangeRates.rates, ...stored.rates } }
+        : defaultExchangeRates;
+};
+
+export const subscribeToExchangeRates = (listener: (rates: ExchangeRates) => void) => {
+    listeners.add(listener);
+    loadExchangeRates().then(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// Value of one unit of `from` in `to`, or null if either currency has no rate
+export const getExchangeRate = (table: ExchangeRates, from: string, to: string): number | null => {
+    if (from === to) return 1;
+
+    const fromRate = from === table.base ? 1 : table.rates[from];
+    const toRate = to === table.base ? 1 : table.rates[to];
+    return fromRate && toRate ? fromRate / toRate : null;
+};
+
+// Set what one unit of `currency` is worth in `quoteCurrency`, as the user sees it
+export const setExchangeRate = async (currency: string, valueInQuote: number, quoteCurrency: string) => {
+    const table = await loadExchangeRates();
+    const quoteRate = getExchangeRate(table, quoteCurrency, table.base);
+    if (!quoteRate) {
+        throw new Error(`No exchange rate for ${quoteCurrency}`);
+    }
+
+    // The base is always worth 1, so its value is set by moving every other currency against it
+    const rates = currency === table.base
+        ? Object.fromEntries(Object.entries(table.rates).map(([code, rate]) =>
+            [code, code === table.base ? 1 : rate / (valueInQuote * quoteRate)]))
+        : { ...table.rates, [currency]: valueInQuote * quoteRate };
+
+    const updated: ExchangeRates = { ...table, rates, updatedAt: Date.now() };
+    await writeJSON(EXCHANGE_RATES_KEY, updated);
+    listeners.forEach(listener => listener(updated));
+};
+
+export const convertMoney = (amount: Money, to: string, table: ExchangeRates): Money => {
+    const rate = getExchangeRate(table, amount.currency, to);
+    if (rate === null) {
+        throw new Error(`No exchange rate from ${amount.currency} to ${to}`);
+    }
+    return money(amount.cents * rate, to);
+};
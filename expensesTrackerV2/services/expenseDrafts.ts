@@ -0,0 +1,105 @@
+import { ExchangeRates } from '@/services/exchangeRates';
+import { toTransactionDate, withHomeAmount } from '@/services/expenses';
+import { detectCurrency, isPositiveMoney, Money, parseMoney, toMajorString } from '@/services/money';
+import { AnalysisField, OCRAnalysisResult } from '@/services/ocr';
+import { formatCalendarDay, formatTimeOfDay, getToday, parseTimeOfDay } from '@/services/periods';
+
+/**
+ * A new expense as the user fills it in: from a receipt's OCR analysis or by hand.
+ * Fields hold text as typed until `validateDraft` turns them into expense fields.
+ */
+export interface ExpenseDraft {
+    // Amount as typed; parsed into Money when saving
+    amount: string;
+    currency: string;
+    merchantName: string;
+    referenceId: string;
+    transactionDate: string;
+    // Optional "HH:MM"
+    transactionTime: string;
+    description: string;
+    category: string;
+}
+
+export const emptyDraft = (currency: string, transactionDate: string = ''): ExpenseDraft => ({
+    amount: '',
+    currency,
+    merchantName: '',
+    referenceId: '',
+    transactionDate,
+    transactionTime: '',
+    description: '',
+    category: 'other'
+});
+
+// The analysis field each draft field is pre-filled from
+export const DRAFT_FIELD_SOURCES: Partial<Record<keyof ExpenseDraft, AnalysisField>> = {
+    amount: 'amount',
+    currency: 'amount',
+    merchantName: 'beneficiaryName',
+    referenceId: 'referenceId',
+    transactionDate: 'date',
+    transactionTime: 'time'
+};
+
+// Pre-fill a draft from what OCR found on a receipt
+export const draftFromAnalysis = (analysis: OCRAnalysisResult, homeCurrency: string, timeZone: string): ExpenseDraft => {
+    const amount = parseMoney(analysis.amount || '');
+    const time = parseTimeOfDay(analysis.time || '');
+
+    return {
+        ...emptyDraft(homeCurrency, analysis.date || formatCalendarDay(getToday(timeZone))),
+        amount: amount ? toMajorString(amount) : '',
+        // Use the currency printed with the amount, if any
+        currency: detectCurrency(analysis.amount || '') || homeCurrency,
+        merchantName: analysis.beneficiaryName || '',
+        referenceId: analysis.referenceId || '',
+        transactionTime: time ? formatTimeOfDay(time) : ''
+    };
+};
+
+export type DraftResult =
+    | { amount: Money; fields: Record<string, any>; error?: undefined }
+    | { error: string };
+
+// Fields of a new expense from a draft, or why it cannot be saved yet
+export const validateDraft = (
+    draft: ExpenseDraft,
+    homeCurrency: string,
+    rates: ExchangeRates,
+    timeZone: string
+): DraftResult => {
+    const amount = parseMoney(draft.amount, draft.currency);
+    if (!isPositiveMoney(amount)) {
+        return { error: 'Please enter a valid amount' };
+    }
+
+    if (!draft.merchantName.trim()) {
+        return { error: 'Please enter the merchant name' };
+    }
+
+    const transactionDate = toTransactionDate(draft.transactionDate, draft.transactionTime, timeZone);
+    if (!transactionDate) {
+        return { error: 'Please enter the transaction date as YYYY-MM-DD and the time, if any, as HH:MM' };
+    }
+
+    // Amount as paid, plus its value in the home currency at today's rate
+    let conversion;
+    try {
+        conversion = withHomeAmount(amount, homeCurrency, rates);
+    } catch (error: any) {
+        return { error: error.message };
+    }
+
+    return {
+        amount,
+        fields: {
+            ...conversion,
+            merchantName: draft.merchantName.trim(),
+            referenceId: draft.referenceId.trim(),
+            ...transactionDate,
+            description: draft.description.trim(),
+            category: draft.category
+        }
+    };
+};
@@ -0,0 +1,198 @@
+import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+
+import { ExchangeRates, getExchangeRate } from '@/services/exchangeRates';
+import { Money, money, readMoney } from '@/services/money';
+import { ReceiptAttachment } from '@/services/ocr';
+import {
+    formatCalendarDay,
+    formatTimeOfDay,
+    getCalendarDay,
+    getTimeOfDay,
+    parseCalendarDay,
+    parseTimeOfDay,
+    zonedTimeToDate
+} from '@/services/periods';
+import { enqueue, SyncItem } from '@/services/syncQueue';
+
+export interface Expense {
+    id: string;
+    userId: string;
+    // In the currency the expense was paid in
+    amount: Money;
+    // Value of one unit of `amount` in the home currency when the expense was saved
+    exchangeRate?: number;
+    // `amount` converted at `exchangeRate`
+    homeAmount?: Money;
+    merchantName: string;
+    referenceId: string;
+    // When the purchase happened; every total, budget period and sort uses this
+    transactionDate: FirebaseFirestoreTypes.Timestamp;
+    // False when only the day is known; the timestamp is then midday on that day
+    hasTransactionTime?: boolean;
+    description: string;
+    category: string;
+    location?: {
+        latitude: number;
+        longitude: number;
+        address: string;
+        city: string;
+    } | null;
+    source?: 'ocr' | 'manual';
+    // Original receipt files kept by the backend, in page order
+    attachments?: ReceiptAttachment[];
+    // Hash of the uploaded receipt file, used to spot the same receipt uploaded again
+    contentHash?: string;
+    extractedText?: string;
+    createdAt: any;
+    updatedAt: any;
+    // Set while a local change to this expense is waiting to sync
+    syncItem?: SyncItem;
+}
+
+// Fields of a saved expense the user can correct after the fact
+export interface ExpenseChanges {
+    amount: Money;
+    exchangeRate: number;
+    homeAmount: Money;
+    merchantName: string;
+    referenceId: string;
+    // Millis, as the sync queue stores changes as JSON
+    transactionDate: number;
+    hasTransactionTime: boolean;
+    description: string;
+    category: string;
+}
+
+// Conversion stored with an expense so its value in the home currency never shifts with later rate changes
+export const withHomeAmount = (amount: Money, homeCurrency: string, rates: ExchangeRates) => {
+    const exchangeRate = getExchangeRate(rates, amount.currency, homeCurrency);
+    if (exchangeRate === null) {
+        throw new Error(`No exchange rate from ${amount.currency} to ${homeCurrency}`);
+    }
+    return { amount, exchangeRate, homeAmount: money(amount.cents * exchangeRate, homeCurrency) };
+};
+
+// Expenses with only a date are placed at midday, so they stay on that day if the timezone changes
+export const DATE_ONLY_TIME = { hour: 12, minute: 0 };
+
+// Canonical transaction timestamp from a form's date ("YYYY-MM-DD") and optional time, in the user's timezone.
+// Returns null if the date or a non-empty time is invalid.
+export const toTransactionDate = (dateText: string, timeText: string, timeZone: string) => {
+    const day = parseCalendarDay(dateText);
+    const time = timeText.trim() ? parseTimeOfDay(timeText) : null;
+    if (!day || (timeText.trim() && !time)) return null;
+
+    return {
+        transactionDate: zonedTimeToDate(day, time || DATE_ONLY_TIME, timeZone).getTime(),
+        hasTransactionTime: !!time
+    };
+};
+
+// Date and time of an expense as edited in a form; the time is empty if it was never known
+export const getTransactionDateFields = (expense: Expense, timeZone: string) => {
+    const date = expense.transactionDate.toDate();
+    return {
+        transactionDate: formatCalendarDay(getCalendarDay(date, timeZone)),
+        transactionTime: expense.hasTransactionTime ? formatTimeOfDay(getTimeOfDay(date, timeZone)) : ''
+    };
+};
+
+// Before transactionDate was a timestamp it held the "YYYY-MM-DD" string typed in the form.
+// Until the migration converts them, such days are read as midday UTC, which is the same day almost everywhere.
+const readTransactionDate = (data: Record<string, any>): FirebaseFirestoreTypes.Timestamp => {
+    const value = data.transactionDate;
+    if (value instanceof firestore.Timestamp) return value;
+    if (typeof value === 'number') return firestore.Timestamp.fromMillis(value);
+
+    const day = typeof value === 'string' ? parseCalendarDay(value) : null;
+    if (day) {
+        return firestore.Timestamp.fromMillis(Date.UTC(day.year, day.month - 1, day.day, DATE_ONLY_TIME.hour));
+    }
+    return data.createdAt?.toMillis ? data.createdAt : firestore.Timestamp.now();
+};
+
+// Expense documents written before amounts were stored in cents hold a float
+export const readExpense = (id: string, data: Record<string, any>): Expense => ({
+    ...data,
+    id,
+    amount: readMoney(data.amount),
+    homeAmount: data.homeAmount ? readMoney(data.homeAmount) : undefined,
+    transactionDate: readTransactionDate(data)
+}) as Expense;
+
+// Expense writes go through the sync queue so they are never lost offline.
+// Budget spending is derived from expenses, so no budget documents need updating here.
+
+export const createExpense = async (data: Record<string, any>) => {
+    // Firestore generates ids locally, so this works offline
+    const expenseId = firestore().collection('expenses').doc().id;
+    await enqueue({ type: 'createExpense', expenseId, data, createdAtMs: Date.now() });
+    return expenseId;
+};
+
+// `baseUpdatedAtMs` is the expense's updatedAt when the user started editing,
+// used to detect changes made on another device in the meantime
+export const updateExpense = async (expenseId: string, changes: ExpenseChanges, baseUpdatedAtMs: number | null) => {
+    await enqueue({
+        type: 'updateExpense',
+        expenseId,
+        baseUpdatedAtMs,
+        changes: {
+            ...changes,
+            merchantName: changes.merchantName.trim(),
+            referenceId: changes.referenceId.trim(),
+            description: changes.description.trim()
+        }
+    });
+};
+
+// Fold a suspected duplicate into the expense it repeats. The saved amount, merchant and
+// category stay; details the saved expense lacks are filled in and the receipt files are added.
+export const mergeIntoExpense = async (expense: Expense, fields: Record<string, any>) => {
+    const changes: Record<string, any> = {};
+    if (!expense.referenceId && fields.referenceId) {
+        changes.referenceId = fields.referenceId;
+    }
+    if (!expense.description && fields.description) {
+        changes.description = fields.description;
+    }
+    if (!expense.hasTransactionTime && fields.hasTransactionTime) {
+        changes.transactionDate = fields.transactionDate;
+        changes.hasTransactionTime = true;
+    }
+    if (!expense.contentHash && fields.contentHash) {
+        changes.contentHash = fields.contentHash;
+    }
+    if (!expense.extractedText && fields.extractedText) {
+        changes.extractedText = fields.extractedText;
+    }
+    if (fields.attachments?.length) {
+        changes.attachments = [...(expense.attachments || []), ...fields.attachments];
+    }
+
+    if (Object.keys(changes).length === 0) return;
+    await enqueue({
+        type: 'updateExpense',
+        expenseId: expense.id,
+        baseUpdatedAtMs: expense.updatedAt?.toMillis?.() ?? null,
+        changes
+    });
+};
+
+// Stored receipt files are removed along with the expense
+export const deleteExpense = async (expenseId: string, attachments: ReceiptAttachment[] = []) => {
+    await enqueue({ type: 'deleteExpense', expenseId, attachments });
+};
+
+// Live list of a user's expenses; returns the unsubscribe function
+export const subscribeToExpenses = (
+    userId: string,
+    onChange: (expenses: Expense[]) => void,
+    onError: (error: Error) => void
+) => firestore()
+    .collection('expenses')
+    .where('userId', '==', userId)
+    .onSnapshot(
+        snapshot => onChange(snapshot.docs.map(doc => readExpense(doc.id, doc.data()))),
+        onError
+    );
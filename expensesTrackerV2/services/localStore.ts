@@ -0,0 +1,17 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// JSON values persisted on the device, surviving restarts and offline periods
+
+export const readJSON = async <T>(key: string, fallback: T): Promise<T> => {
+    try {
+        const value = await AsyncStorage.getItem(key);
+        return value ? JSON.parse(value) as T : fallback;
+    } catch (error) {
+        console.error(`Error reading ${key} from local storage:`, error);
+        return fallback;
+    }
+};
+
+export const writeJSON = async (key: string, value: unknown) => {
+    await AsyncStorage.setItem(key, JSON.stringify(value));
+};
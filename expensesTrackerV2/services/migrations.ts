@@ -0,0 +1,108 @@
+import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+
+import { DATE_ONLY_TIME } from '@/services/expenses';
+import { fromMajorUnits } from '@/services/money';
+import { DEFAULT_TIMEZONE, getCalendarDay, isValidTimeZone, parseCalendarDay, zonedTimeToDate } from '@/services/periods';
+
+/**
+ * One-off upgrades of a user's existing documents to the current data format.
+ * `users/{uid}.dataVersion` records how many have been applied; each migration
+ * only touches documents still in the old format, so re-running one is harmless.
+ */
+
+type Migration = (userId: string) => Promise<void>;
+
+interface DocumentUpdate {
+    ref: FirebaseFirestoreTypes.DocumentReference;
+    data: Record<string, any>;
+}
+
+// Firestore batches are limited to 500 writes
+const BATCH_SIZE = 400;
+
+const commitInBatches = async (updates: DocumentUpdate[]) => {
+    for (let i = 0; i < updates.length; i += BATCH_SIZE) {
+        const batch = firestore().batch();
+        updates.slice(i, i + BATCH_SIZE).forEach(({ ref, data }) => batch.update(ref, data));
+        await batch.commit();
+    }
+};
+
+// 1: float amounts become Money ({ cents, currency })
+const migrateAmountsToMoney: Migration = async userId => {
+    const [expenses, budgets, userDoc] = await Promise.all([
+        firestore().collection('expenses').where('userId', '==', userId).get(),
+        firestore().collection('budgets').where('userId', '==', userId).get(),
+        firestore().collection('users').doc(userId).get()
+    ]);
+
+    const updates: DocumentUpdate[] = [
+        ...expenses.docs
+            .filter(doc => typeof doc.data().amount === 'number')
+            .map(doc => ({ ref: doc.ref, data: { amount: fromMajorUnits(doc.data().amount) } })),
+        ...budgets.docs
+            .filter(doc => typeof doc.data().budgetAmount === 'number')
+            .map(doc => ({ ref: doc.ref, data: { budgetAmount: fromMajorUnits(doc.data().budgetAmount) } }))
+    ];
+
+    const overspendingLimit = userDoc.data()?.preferences?.notifications?.overspendingAlerts;
+    if (typeof overspendingLimit === 'number') {
+        updates.push({
+            ref: userDoc.ref,
+            data: { 'preferences.notifications.overspendingAlerts': fromMajorUnits(overspendingLimit) }
+        });
+    }
+
+    await commitInBatches(updates);
+};
+
+// 2: transactionDate "YYYY-MM-DD" strings become timestamps at midday in the user's timezone.
+// Expenses without a usable date fall back to the day they were created.
+const migrateTransactionDates: Migration = async userId => {
+    const [expenses, userDoc] = await Promise.all([
+        firestore().collection('expenses').where('userId', '==', userId).get(),
+        firestore().collection('users').doc(userId).get()
+    ]);
+
+    const storedTimeZone = userDoc.data()?.preferences?.timezone;
+    const timeZone = storedTimeZone && isValidTimeZone(storedTimeZone) ? storedTimeZone : DEFAULT_TIMEZONE;
+
+    const updates: DocumentUpdate[] = [];
+    expenses.docs.forEach(doc => {
+        const data = doc.data();
+        if (data.transactionDate instanceof firestore.Timestamp) return;
+
+        const createdAt: Date | undefined = data.createdAt?.toDate?.();
+        const day = (typeof data.transactionDate === 'string' && parseCalendarDay(data.transactionDate)) ||
+            (createdAt && getCalendarDay(createdAt, timeZone));
+        if (!day) return;
+
+        updates.push({
+            ref: doc.ref,
+            data: {
+                transactionDate: firestore.Timestamp.fromDate(zonedTimeToDate(day, DATE_ONLY_TIME, timeZone)),
+                hasTransactionTime: false
+            }
+        });
+    });
+
+    await commitInBatches(updates);
+};
+
+const migrations: Migration[] = [
+    migrateAmountsToMoney,
+    migrateTransactionDates
+];
+
+// Bring the user's documents up to date; safe to call on every sign-in
+export const runMigrations = async (userId: string) => {
+    const userRef = firestore().collection('users').doc(userId);
+    const userDoc = await userRef.get();
+    const dataVersion: number = userDoc.data()?.dataVersion ?? 0;
+
+    for (let version = dataVersion; version < migrations.length; version++) {
+        console.log(`Migrating data for user ${userId} to version ${version + 1}`);
+        await migrations[version](userId);
+        await userRef.set({ dataVersion: version + 1 }, { merge: true });
+    }
+};
@@ -0,0 +1,146 @@
+/**
+ * Amounts of money as integer minor units (cents) plus an ISO 4217 currency code.
+ * Floats are never used for stored or summed amounts; Money objects are written
+ * to Firestore as-is, e.g. `amount: { cents: 1250, currency: 'MYR' }`.
+ */
+export interface Money {
+    cents: number;
+    currency: string;
+}
+
+export const DEFAULT_CURRENCY = 'MYR';
+
+export interface CurrencyInfo {
+    code: string;
+    name: string;
+    symbol: string;
+}
+
+// Currencies the app offers; all use two decimal places
+export const currencies: CurrencyInfo[] = [
+    { code: 'MYR', name: 'Malaysian Ringgit', symbol: 'RM' },
+    { code: 'SGD', name: 'Singapore Dollar', symbol: 'S$' },
+    { code: 'USD', name: 'US Dollar', symbol: 'US$' },
+    { code: 'EUR', name: 'Euro', symbol: '€' },
+    { code: 'GBP', name: 'British Pound', symbol: '£' },
+    { code: 'AUD', name: 'Australian Dollar', symbol: 'A$' },
+    { code: 'THB', name: 'Thai Baht', symbol: '฿' },
+    { code: 'CNY', name: 'Chinese Yuan', symbol: 'CN¥' },
+    { code: 'PHP', name: 'Philippine Peso', symbol: '₱' }
+];
+
+export const getCurrencyInfo = (code: string): CurrencyInfo =>
+    currencies.find(currency => currency.code === code) || { code, name: code, symbol: `${code} ` };
+
+// Symbols and codes as they appear on receipts, most specific first. Codes are matched
+// against letters only, as they are often written right next to the amount ("MYR12.50").
+const currencyMarkers: [RegExp, string][] = [
+    [/(?<![A-Z])MYR(?![A-Z])|\bRM\s*\d/i, 'MYR'],
+    [/(?<![A-Z])SGD(?![A-Z])|S\$/i, 'SGD'],
+    [/(?<![A-Z])USD(?![A-Z])|US\$/i, 'USD'],
+    [/(?<![A-Z])AUD(?![A-Z])|A\$/i, 'AUD'],
+    [/(?<![A-Z])EUR(?![A-Z])|€/i, 'EUR'],
+    [/(?<![A-Z])GBP(?![A-Z])|£/i, 'GBP'],
+    [/(?<![A-Z])THB(?![A-Z])|฿/i, 'THB'],
+    [/(?<![A-Z])(?:CNY|RMB)(?![A-Z])|¥/i, 'CNY'],
+    [/(?<![A-Z])PHP(?![A-Z])|₱/i, 'PHP']
+];
+
+// Currency named in an amount string such as "RM 12.50" or "SGD 8.00"; null if none is
+export const detectCurrency = (text: string): string | null => {
+    const marker = currencyMarkers.find(([pattern]) => pattern.test(text));
+    return marker ? marker[1] : null;
+};
+
+export const money = (cents: number, currency: string = DEFAULT_CURRENCY): Money => ({
+    cents: Math.round(cents),
+    currency
+});
+
+export const zeroMoney = (currency: string = DEFAULT_CURRENCY): Money => money(0, currency);
+
+// Convert a decimal amount (e.g. a legacy float document) to minor units
+export const fromMajorUnits = (amount: number, currency: string = DEFAULT_CURRENCY): Money =>
+    money(Math.round(amount * 100), currency);
+
+/**
+ * Parse user or OCR input such as "12.5", "RM 1,234.56" or "MYR12.50".
+ * Returns null when there is no amount in the text, or it is negative ("-5", "RM -5", "5.00-").
+ * Extra decimal places are rounded.
+ */
+export const parseMoney = (text: string, currency: string = DEFAULT_CURRENCY): Money | null => {
+    if (/^[^\d]*[-−]|[-−]\s*$/.test(text.trim())) return null;
+
+    const cleaned = text.replace(/[^\d.]/g, '');
+    const match = cleaned.match(/^(\d*)(?:\.(\d*))?$/);
+    if (!match || (!match[1] && !match[2])) return null;
+
+    const whole = parseInt(match[1] || '0', 10);
+    const fraction = (match[2] || '').padEnd(3, '0');
+    const roundUp = parseInt(fraction[2], 10) >= 5 ? 1 : 0;
+
+    return money(whole * 100 + parseInt(fraction.slice(0, 2), 10) + roundUp, currency);
+};
+
+// Read an amount from a Firestore document, accepting the legacy float format
+export const readMoney = (value: unknown, currency: string = DEFAULT_CURRENCY): Money => {
+    if (typeof value === 'number') {
+        return fromMajorUnits(value, currency);
+    }
+    if (value && typeof value === 'object' && typeof (value as Money).cents === 'number') {
+        const stored = value as Money;
+        return money(stored.cents, stored.currency || currency);
+    }
+    return zeroMoney(currency);
+};
+
+const assertSameCurrency = (a: Money, b: Money) => {
+    if (a.currency !== b.currency) {
+        throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+    }
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return money(a.cents + b.cents, a.currency);
+};
+
+export const subtractMoney = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return money(a.cents - b.cents, a.currency);
+};
+
+export const sumMoney = (amounts: Money[], currency: string = DEFAULT_CURRENCY): Money =>
+    amounts.reduce(addMoney, zeroMoney(currency));
+
+// Negative, zero or positive like a sort comparator
+export const compareMoney = (a: Money, b: Money): number => {
+    assertSameCurrency(a, b);
+    return a.cents - b.cents;
+};
+
+export const isPositiveMoney = (amount: Money | null): amount is Money => !!amount && amount.cents > 0;
+
+// How much of `total` `part` is, e.g. for budget progress (1 = 100%)
+export const moneyRatio = (part: Money, total: Money): number => {
+    assertSameCurrency(part, total);
+    return total.cents === 0 ? 0 : part.cents / total.cents;
+};
+
+// Decimal string without a currency symbol, e.g. for editable inputs: "1234.50"
+export const toMajorString = (amount: Money, decimals: 0 | 2 = 2): string => {
+    const sign = amount.cents < 0 ? '-' : '';
+    const cents = Math.abs(amount.cents);
+
+    if (decimals === 0) {
+        return `${sign}${Math.round(cents / 100)}`;
+    }
+    return `${sign}${Math.floor(cents / 100)}.${(cents % 100).toString().padStart(2, '0')}`;
+};
+
+// Display string with the currency symbol, e.g. "RM12.50"
+export const formatMoney = (amount: Money, decimals: 0 | 2 = 2): string => {
+    const symbol = getCurrencyInfo(amount.currency).symbol;
+    const sign = amount.cents < 0 ? '-' : '';
+    return `${sign}${symbol}${toMajorString(money(Math.abs(amount.cents), amount.currency), decimals)}`;
+};
@@ -0,0 +1,164 @@
+import {
+    cancelJob,
+    createReceiptLink,
+    deleteReceipt,
+    extractBatch,
+    extractText,
+    getJob,
+    getReceiptSource,
+    submitJob,
+    UploadFile
+} from '@/services/apiClient';
+import {
+    AnalysisField,
+    AnalyzedReceipt,
+    CategoryOption,
+    FailedReceipt,
+    ReceiptAnalysis,
+    ReceiptAttachment,
+    ReceiptJob,
+    ReceiptJobStage
+} from '@/services/apiTypes';
+
+// The backend's types, generated from its schema (backend/lib/schema.mjs)
+export type {
+    AnalysisField,
+    AnalyzedReceipt,
+    CategoryOption,
+    CategorySuggestion,
+    FieldConfidence,
+    ReceiptAttachment,
+    ReceiptJob,
+    ReceiptJobStage,
+    ReceiptJobStatus
+} from '@/services/apiTypes';
+
+export type OCRAnalysisResult = ReceiptAnalysis;
+
+// A receipt the backend analyzed, or one of a batch it could not
+export type OCRResponse = AnalyzedReceipt | FailedReceipt;
+
+// Fields below this are highlighted for the user to check
+export const LOW_CONFIDENCE = 0.6;
+
+export const getLowConfidence = (analysis: OCRAnalysisResult | null | undefined, field: AnalysisField) => {
+    const detail = analysis?.fields?.[field];
+    return detail && detail.confidence < LOW_CONFIDENCE ? detail : null;
+};
+
+export const receiptJobStageText: Record<ReceiptJobStage, string> = {
+    queued: 'Waiting for the receipt service',
+    preprocessing: 'Preparing the receipt',
+    ocr: 'Reading the text',
+    analyzing: 'Finding the amount, date and merchant',
+    storing: 'Saving the receipt file',
+    done: 'Done'
+};
+
+export const isReceiptJobFinished = (job: ReceiptJob) =>
+    job.status === 'succeeded' || job.status === 'failed' || job.status === 'cancelled';
+
+export type ReceiptFile = UploadFile;
+
+// File types the backend can read: PDFs and phone photos
+export const RECEIPT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png', 'image/heic', 'image/heif'];
+export const MAX_RECEIPT_SIZE = 10 * 1024 * 1024;
+// Pages of a camera scan sent in one upload
+export const MAX_RECEIPT_PAGES = 10;
+// Receipts the backend accepts in one batch request
+export const MAX_BATCH_SIZE = 10;
+
+// How a receipt is named in lists, e.g. "scan.jpg (3 pages)"
+export const getReceiptName = (files: ReceiptFile[]) =>
+    files.length > 1 ? `${files[0].name} (${files.length} pages)` : files[0]?.name || 'Receipt';
+
+// Upload a receipt to the backend for text extraction and analysis. A multi-page
+// scan is sent as one request and analyzed as one receipt.
+export const extractReceipt = async (files: ReceiptFile[], categories?: CategoryOption[]): Promise<AnalyzedReceipt> =>
+    extractText(files, categories);
+
+// Each file is a separate receipt; results come back in the same order.
+// Callers split larger batches into requests of MAX_BATCH_SIZE files.
+export const extractReceiptBatch = async (files: ReceiptFile[], categories?: CategoryOption[]): Promise<OCRResponse[]> => {
+    const data = await extractBatch(files, categories);
+    return data.results;
+};
+
+// Start processing a receipt without waiting for the result; poll it with getReceiptJob
+export const submitReceiptJob = async (files: ReceiptFile[], categories?: CategoryOption[]): Promise<ReceiptJob> =>
+    submitJob(files, categories);
+
+// Current state of a job. A 404 means the backend no longer knows it, e.g. after a restart.
+export const getReceiptJob = async (jobId: string): Promise<ReceiptJob> => getJob(jobId);
+
+// Stop a job that has not finished. Jobs the backend no longer knows count as cancelled.
+export const cancelReceiptJob = async (jobId: string) => {
+    try {
+        await cancelJob(jobId);
+    } catch (error: any) {
+        if (error?.status !== 404) throw error;
+    }
+};
+
+// The id the backend logged a failed request under, if it got that far
+export const getOCRRequestId = (error: any): string | undefined =>
+    typeof error?.requestId === 'string' ? error.requestId : undefined;
+
+// An alert message with the request id to quote when reporting the problem
+export const withRequestId = (message: string, requestId?: string) =>
+    requestId ? `${message}\n\nRequest ID: ${requestId}` : message;
+
+// The request never reached a working backend, so trying again later may succeed
+export const isOCRUnreachable = (error: any) =>
+    error?.message === 'Network request failed' || [502, 503, 504].includes(error?.status);
+
+// The backend did not accept the user's sign-in (no user, or a token it could not verify)
+export const isOCRUnauthorized = (error: any) => error?.status === 401;
+
+// A rate limit or daily quota the backend turned a request away with
+export interface OCRLimit {
+    code: 'rate-limited' | 'quota-exceeded';
+    limit?: number;
+    // Seconds until a retry can succeed
+    retryAfter: number;
+}
+
+export const getOCRLimit = (error: any): OCRLimit | null =>
+    error?.status === 429
+        ? { code: error.code === 'quota-exceeded' ? 'quota-exceeded' : 'rate-limited', limit: error.limit, retryAfter: error.retryAfter ?? 60 }
+        : null;
+
+// "40 seconds", "5 minutes", "3 hours"
+const formatWait = (seconds: number) => {
+    const [value, unit] = seconds < 60
+        ? [seconds, 'second']
+        : seconds < 60 * 60
+            ? [Math.ceil(seconds / 60), 'minute']
+            : [Math.ceil(seconds / 3600), 'hour'];
+    return `${value} ${unit}${value === 1 ? '' : 's'}`;
+};
+
+// What the limit means for the user and when they can try again
+export const describeOCRLimit = (limit: OCRLimit) =>
+    limit.code === 'quota-exceeded'
+        ? `You have reached today's limit${limit.limit ? ` of ${limit.limit} receipts` : ''}. You can upload more in ${formatWait(limit.retryAfter)}, or add expenses manually until then.`
+        : `Receipts are being sent faster than the receipt service allows. Please wait ${formatWait(limit.retryAfter)} and try again.`;
+
+export const isPDFAttachment = (attachment: ReceiptAttachment) => attachment.mimeType === 'application/pdf';
+
+// A stored receipt file as an image or web view source: its URL and the user's token
+export const getAttachmentSource = (attachment: ReceiptAttachment) => getReceiptSource(attachment.id);
+
+// For the browser, which cannot send the token: a URL that works for a few minutes
+export const getAttachmentLink = async (attachment: ReceiptAttachment) => (await createReceiptLink(attachment.id)).url;
+
+// Remove stored receipt files nothing links to any more. Files already gone count as removed.
+export const deleteReceiptAttachments = async (attachments: ReceiptAttachment[]) => {
+    for (const attachment of attachments) {
+        try {
+            await deleteReceipt(attachment.id);
+        } catch (error: any) {
+            if (error?.status !== 404) throw error;
+        }
+    }
+};
@@ -0,0 +1,171 @@
+/**
+ * Budget periods and calendar days in the user's timezone.
+ *
+ * Everything here works on calendar days ({ year, month, day }) rather than
+ * Date objects, so a period never depends on the device's own timezone or on UTC.
+ * Weeks follow ISO 8601: they start on Monday and week 1 contains the year's
+ * first Thursday, so the days around New Year can belong to the other year's week.
+ */
+
+export type PeriodType = 'daily' | 'weekly' | 'monthly';
+
+export interface CalendarDay {
+    year: number;
+    // 1-12
+    month: number;
+    day: number;
+}
+
+export const DEFAULT_TIMEZONE = 'Asia/Kuala_Lumpur';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const isValidTimeZone = (timeZone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+export const getDeviceTimeZone = (): string => {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+};
+
+export interface TimeOfDay {
+    // 0-23
+    hour: number;
+    minute: number;
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock date and time of an instant in `timeZone`
+const getZonedParts = (date: Date, timeZone: string): CalendarDay & TimeOfDay => {
+    let formatter = zonedFormatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+            hour: '2-digit',
+            minute: '2-digit',
+            hour12: false
+        });
+        zonedFormatters.set(timeZone, formatter);
+    }
+
+    const parts = formatter.formatToParts(date);
+    const getPart = (type: string) => parseInt(parts.find(part => part.type === type)?.value || '0', 10);
+    return {
+        year: getPart('year'),
+        month: getPart('month'),
+        day: getPart('day'),
+        // Some engines format midnight as 24:00
+        hour: getPart('hour') % 24,
+        minute: getPart('minute')
+    };
+};
+
+// The calendar day an instant falls on in `timeZone`
+export const getCalendarDay = (date: Date, timeZone: string): CalendarDay => {
+    const { year, month, day } = getZonedParts(date, timeZone);
+    return { year, month, day };
+};
+
+export const getTimeOfDay = (date: Date, timeZone: string): TimeOfDay => {
+    const { hour, minute } = getZonedParts(date, timeZone);
+    return { hour, minute };
+};
+
+// The instant a wall-clock date and time in `timeZone` refers to
+export const zonedTimeToDate = (day: CalendarDay, time: TimeOfDay, timeZone: string): Date => {
+    const wallClock = Date.UTC(day.year, day.month - 1, day.day, time.hour, time.minute);
+    const offsetAt = (instant: number) => {
+        const parts = getZonedParts(new Date(instant), timeZone);
+        return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - instant;
+    };
+
+    // A second pass settles times near a daylight saving change
+    const guess = wallClock - offsetAt(wallClock);
+    return new Date(wallClock - offsetAt(guess));
+};
+
+export const getToday = (timeZone: string): CalendarDay => getCalendarDay(new Date(), timeZone);
+
+// "2024-01-15" → { year: 2024, month: 1, day: 15 }; null if it is not a real date
+export const parseCalendarDay = (text: string): CalendarDay | null => {
+    const match = text.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return null;
+
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+        return null;
+    }
+    return { year, month, day };
+};
+
+export const formatCalendarDay = ({ year, month, day }: CalendarDay): string =>
+    `${year}-${pad(month)}-${pad(day)}`;
+
+// "14:30", "2:30 PM" or "14:30:05" → { hour: 14, minute: 30 }; null if it is not a time
+export const parseTimeOfDay = (text: string): TimeOfDay | null => {
+    const match = text.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+    if (!match) return null;
+
+    let hour = parseInt(match[1], 10);
+    const minute = parseInt(match[2], 10);
+    const meridiem = match[3]?.[0].toLowerCase();
+    if (meridiem) {
+        if (hour < 1 || hour > 12) return null;
+        hour = (hour % 12) + (meridiem === 'p' ? 12 : 0);
+    }
+    return hour < 24 && minute < 60 ? { hour, minute } : null;
+};
+
+export const formatTimeOfDay = ({ hour, minute }: TimeOfDay): string => `${pad(hour)}:${pad(minute)}`;
+
+// ISO 8601 week-numbering year and week of a calendar day
+export const getISOWeek = ({ year, month, day }: CalendarDay): { year: number; week: number } => {
+    const date = new Date(Date.UTC(year, month - 1, day));
+    // Monday = 1 ... Sunday = 7
+    const weekday = date.getUTCDay() || 7;
+    // The Thursday of the same week decides which year the week belongs to
+    date.setUTCDate(date.getUTCDate() + 4 - weekday);
+
+    const weekYear = date.getUTCFullYear();
+    const dayOfYear = (date.getTime() - Date.UTC(weekYear, 0, 1)) / MS_PER_DAY;
+    return { year: weekYear, week: Math.floor(dayOfYear / 7) + 1 };
+};
+
+// Period key a day falls into (e.g. 2024-01-15, 2024-W03, 2024-01)
+export const getPeriodKey = (type: PeriodType, day: CalendarDay): string => {
+    switch (type) {
+        case 'daily':
+            return formatCalendarDay(day);
+        case 'weekly': {
+            const { year, week } = getISOWeek(day);
+            return `${year}-W${pad(week)}`;
+        }
+        case 'monthly':
+            return `${day.year}-${pad(day.month)}`;
+        default:
+            return '';
+    }
+};
+
+export const getCurrentPeriodKey = (type: PeriodType, timeZone: string): string =>
+    getPeriodKey(type, getToday(timeZone));
+
+// Date and time of an instant as shown to the user, in their timezone
+export const formatDateInZone = (date: Date, timeZone: string): string =>
+    date.toLocaleDateString('en-MY', { timeZone, day: '2-digit', month: 'short', year: 'numeric' });
+
+export const formatTimeInZone = (date: Date, timeZone: string): string =>
+    date.toLocaleTimeString('en-MY', { timeZone, hour: '2-digit', minute: '2-digit' });
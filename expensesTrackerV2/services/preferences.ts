@@ -0,0 +1,65 @@
+import firestore from '@react-native-firebase/firestore';
+
+import { DEFAULT_CURRENCY, fromMajorUnits, Money, readMoney } from '@/services/money';
+import { getDeviceTimeZone, isValidTimeZone } from '@/services/periods';
+
+// Settings stored under `preferences` on the user's profile document
+export interface UserPreferences {
+    // Currency totals and new budgets are shown in
+    currency: string;
+    // IANA timezone budget periods and dates are based on, e.g. "Asia/Kuala_Lumpur"
+    timezone: string;
+    notifications: {
+        overspendingAlerts: Money;
+    };
+}
+
+export const defaultPreferences: UserPreferences = {
+    currency: DEFAULT_CURRENCY,
+    timezone: getDeviceTimeZone(),
+    notifications: {
+        overspendingAlerts: fromMajorUnits(1000)
+    }
+};
+
+// Fill in anything the stored document doesn't set yet
+const withDefaults = (stored: any): UserPreferences => ({
+    ...defaultPreferences,
+    ...stored,
+    timezone: stored?.timezone && isValidTimeZone(stored.timezone) ? stored.timezone : defaultPreferences.timezone,
+    notifications: {
+        ...defaultPreferences.notifications,
+        ...stored?.notifications,
+        overspendingAlerts: stored?.notifications?.overspendingAlerts !== undefined
+            ? readMoney(stored.notifications.overspendingAlerts)
+            : defaultPreferences.notifications.overspendingAlerts
+    }
+});
+
+// Live preferences for a user; returns the unsubscribe function
+export const subscribeToPreferences = (userId: string, onChange: (preferences: UserPreferences) => void) =>
+    firestore().collection('users').doc(userId).onSnapshot(
+        snapshot => onChange(withDefaults(snapshot.data()?.preferences)),
+        error => console.error('Error listening to preferences:', error)
+    );
+
+export const updateHomeCurrency = async (userId: string, currency: string) => {
+    await firestore().collection('users').doc(userId).update({
+        'preferences.currency': currency,
+        updatedAt: firestore.FieldValue.serverTimestamp()
+    });
+};
+
+export const updateTimezone = async (userId: string, timezone: string) => {
+    await firestore().collection('users').doc(userId).update({
+        'preferences.timezone': timezone,
+        updatedAt: firestore.FieldValue.serverTimestamp()
+    });
+};
+
+export const updateOverspendingLimit = async (userId: string, limit: Money) => {
+    await firestore().collection('users').doc(userId).update({
+        'preferences.notifications.overspendingAlerts': limit,
+        updatedAt: firestore.FieldValue.serverTimestamp()
+    });
+};
@@ -0,0 +1,66 @@
+import { AppState } from 'react-native';
+
+import { readJSON, writeJSON } from '@/services/localStore';
+import { getOCRLimit, getReceiptJob, isOCRUnreachable, isReceiptJobFinished, ReceiptJob } from '@/services/ocr';
+
+/**
+ * The receipt job the OCR screen is waiting for. It is kept on the device, so the
+ * screen picks the job up again after the app was backgrounded or restarted, and
+ * polled until the backend reports it finished.
+ */
+
+export interface ActiveReceiptJob {
+    jobId: string;
+    userId: string;
+    submittedAt: number;
+}
+
+const ACTIVE_JOB_KEY = 'activeReceiptJob';
+const POLL_INTERVAL_MS = 2000;
+
+export const loadActiveReceiptJob = () => readJSON<ActiveReceiptJob | null>(ACTIVE_JOB_KEY, null);
+
+export const saveActiveReceiptJob = (job: ActiveReceiptJob) => writeJSON(ACTIVE_JOB_KEY, job);
+
+export const clearActiveReceiptJob = () => writeJSON(ACTIVE_JOB_KEY, null);
+
+// Resolves after `ms`, or as soon as the app returns to the foreground
+const waitForNextPoll = (ms: number) => new Promise<void>(resolve => {
+    const done = () => {
+        clearTimeout(timer);
+        subscription.remove();
+        resolve();
+    };
+    const timer = setTimeout(done, ms);
+    const subscription = AppState.addEventListener('change', state => {
+        if (state === 'active') done();
+    });
+});
+
+// Poll a job until it finishes, reporting every update. Resolves to the finished job, or
+// null once `isStopped` says the caller lost interest. The backend being unreachable (also
+// while the app is in the background) or rate limiting the polls is waited out; other errors are thrown.
+export const pollReceiptJob = async (
+    jobId: string,
+    onUpdate: (job: ReceiptJob) => void,
+    isStopped: () => boolean
+): Promise<ReceiptJob | null> => {
+    while (!isStopped()) {
+        try {
+            const job = await getReceiptJob(jobId);
+            if (isStopped()) break;
+            onUpdate(job);
+            if (isReceiptJobFinished(job)) return job;
+        } catch (error) {
+            const limit = getOCRLimit(error);
+            if (!isOCRUnreachable(error) && !limit) throw error;
+            console.error('Receipt job status unavailable, retrying:', error);
+            if (limit) {
+                await waitForNextPoll(limit.retryAfter * 1000);
+                continue;
+            }
+        }
+        await waitForNextPoll(POLL_INTERVAL_MS);
+    }
+    return null;
+};
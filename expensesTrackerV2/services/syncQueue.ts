@@ -0,0 +1,511 @@
+import NetInfo from '@react-native-community/netinfo';
+import auth from '@react-native-firebase/auth';
+import firestore from '@react-native-firebase/firestore';
+import * as FileSystem from 'expo-file-system';
+import { AppState } from 'react-native';
+
+import { readJSON, writeJSON } from '@/services/localStore';
+import {
+    deleteReceiptAttachments,
+    describeOCRLimit,
+    extractReceipt,
+    AnalyzedReceipt,
+    getOCRLimit,
+    ReceiptAttachment,
+    ReceiptFile
+} from '@/services/ocr';
+
+/**
+ * Outbound queue for writes made on this device.
+ *
+ * Every expense, budget change and receipt upload is stored locally first and
+ * replayed in order once the device is online. Conflict rule:
+ * - creates use ids generated on the device, so replaying them is idempotent
+ * - an edit is not applied if the expense changed on the server after the edit
+ *   was made, or was deleted; it is kept as a `conflict` for the user to resolve.
+ *   Changes written from this device (an earlier queued edit, or a write that timed
+ *   out but was sent later by Firestore's cache) do not count.
+ * - deletes and budget changes always win (last write wins)
+ */
+
+export type SyncStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+export type SyncOperation =
+    | { type: 'createExpense'; expenseId: string; data: Record<string, any>; createdAtMs: number }
+    | { type: 'updateExpense'; expenseId: string; changes: Record<string, any>; baseUpdatedAtMs: number | null }
+    | { type: 'deleteExpense'; expenseId: string; attachments?: ReceiptAttachment[] }
+    | { type: 'saveBudget'; budgetId: string; data: Record<string, any>; isNew: boolean }
+    | { type: 'deactivateBudget'; budgetId: string }
+    | { type: 'processReceipt'; files: ReceiptFile[] };
+
+export interface SyncItem {
+    id: string;
+    userId: string;
+    operation: SyncOperation;
+    status: SyncStatus;
+    attempts: number;
+    lastError?: string;
+    createdAt: number;
+}
+
+// A receipt uploaded by the queue, waiting for the user to confirm it
+export interface ProcessedReceipt {
+    id: string;
+    userId: string;
+    files: ReceiptFile[];
+    response: AnalyzedReceipt;
+    processedAt: number;
+}
+
+const QUEUE_KEY = 'syncQueue';
+const DEVICE_ID_KEY = 'syncDeviceId';
+const PROCESSED_RECEIPTS_KEY = 'processedReceipts';
+const RECEIPTS_DIR = `${FileSystem.documentDirectory}pending-receipts/`;
+const MAX_ATTEMPTS = 5;
+const REQUEST_TIMEOUT_MS = 15000;
+
+let queue: SyncItem[] | null = null;
+let deviceId: string | null = null;
+let processing = false;
+// Set when processQueue is called during a run, for items queued after the run loaded the list
+let rerunRequested = false;
+// Tail of the queue changes in flight; each change waits for the one before it
+let queueChanges: Promise<unknown> = Promise.resolve();
+const queueListeners = new Set<(items: SyncItem[]) => void>();
+const receiptListeners = new Set<(receipts: ProcessedReceipt[]) => void>();
+
+export const createLocalId = () => Date.now() + '-' + Math.round(Math.random() * 1E9);
+
+// Saved on every expense this device writes, so its own earlier writes are not taken for another device's
+const getDeviceId = async () => {
+    if (!deviceId) {
+        deviceId = await readJSON<string | null>(DEVICE_ID_KEY, null);
+        if (!deviceId) {
+            deviceId = createLocalId();
+            await writeJSON(DEVICE_ID_KEY, deviceId);
+        }
+    }
+    return deviceId;
+};
+
+const offlineError = (message: string) => Object.assign(new Error(message), { offline: true });
+// Queued expense data is stored as JSON, so its transaction date is kept in millis until it is written
+const withTransactionTimestamp = (data: Record<string, any>) => typeof data.transactionDate === 'number'
+    ? { ...data, transactionDate: firestore.Timestamp.fromMillis(data.transactionDate) }
+    : data;
+
+const conflictError = (message: string) => Object.assign(new Error(message), { conflict: true });
+
+const isNetworkError = (error: any) =>
+    error?.offline ||
+    error?.code === 'firestore/unavailable' ||
+    error?.message === 'Network request failed';
+
+// Firestore writes never settle while offline, so give up and retry later
+const withTimeout = <T>(promise: Promise<T>): Promise<T> => Promise.race([
+    promise,
+    new Promise<T>((_, reject) =>
+        setTimeout(() => reject(offlineError('Request timed out')), REQUEST_TIMEOUT_MS)
+    )
+]);
+
+export const isOnline = async () => {
+    const state = await NetInfo.fetch();
+    return !!state.isConnected && state.isInternetReachable !== false;
+};
+
+// Receipts queued before multi-page scans held a single `file`
+const withReceiptFiles = <T>(value: T): T => {
+    const legacy = value as T & { file?: ReceiptFile; files?: ReceiptFile[] };
+    return legacy.file && !legacy.files ? { ...legacy, files: [legacy.file] } : value;
+};
+
+const loadQueue = async () => {
+    if (!queue) {
+        // Anything left `syncing` was interrupted by the app closing
+        const stored = await readJSON<SyncItem[]>(QUEUE_KEY, []);
+        queue = stored.map(item => ({
+            ...item,
+            status: item.status === 'syncing' ? 'pending' : item.status,
+            operation: withReceiptFiles(item.operation)
+        }));
+    }
+    return queue;
+};
+
+const saveQueue = async (items: SyncItem[]) => {
+    queue = items;
+    await writeJSON(QUEUE_KEY, items);
+    queueListeners.forEach(listener => listener(items));
+};
+
+// Changes run one at a time on the latest list, so two at once cannot undo each other
+const changeQueue = (change: (items: SyncItem[]) => SyncItem[]) => {
+    const result = queueChanges.then(async () => saveQueue(change(await loadQueue())));
+    queueChanges = result.catch(() => {});
+    return result;
+};
+
+const updateItem = (id: string, changes: Partial<SyncItem>) =>
+    changeQueue(items => items.map(item => item.id === id ? { ...item, ...changes } : item));
+
+const removeItem = (id: string) => changeQueue(items => items.filter(item => item.id !== id));
+
+export const getSyncQueue = loadQueue;
+
+export const subscribeToSyncQueue = (listener: (items: SyncItem[]) => void) => {
+    queueListeners.add(listener);
+    loadQueue().then(listener);
+    return () => {
+        queueListeners.delete(listener);
+    };
+};
+
+export const enqueue = async (operation: SyncOperation) => {
+    const user = auth().currentUser;
+    if (!user) throw new Error('You must be logged in');
+
+    const item: SyncItem = {
+        id: createLocalId(),
+        userId: user.uid,
+        operation,
+        status: 'pending',
+        attempts: 0,
+        createdAt: Date.now()
+    };
+
+    await changeQueue(items => [...items, item]);
+
+    // Try right away; stays queued if offline
+    processQueue();
+    return item;
+};
+
+// Items touching the same record must reach the server in order
+const getRecordKey = (item: SyncItem) => {
+    const operation = item.operation;
+    switch (operation.type) {
+        case 'createExpense':
+        case 'updateExpense':
+        case 'deleteExpense':
+            return `expense:${operation.expenseId}`;
+        case 'saveBudget':
+        case 'deactivateBudget':
+            return `budget:${operation.budgetId}`;
+        default:
+            return `item:${item.id}`;
+    }
+};
+
+const applyOperation = async (item: SyncItem) => {
+    const operation = item.operation;
+
+    switch (operation.type) {
+        case 'createExpense':
+            await withTimeout(firestore().collection('expenses').doc(operation.expenseId).set({
+                ...withTransactionTimestamp(operation.data),
+                userId: item.userId,
+                createdAt: firestore.Timestamp.fromMillis(operation.createdAtMs),
+                updatedAt: firestore.FieldValue.serverTimestamp(),
+                updatedOnDevice: await getDeviceId()
+            }));
+            break;
+
+        case 'updateExpense': {
+            const ref = firestore().collection('expenses').doc(operation.expenseId);
+            const snapshot = await withTimeout(ref.get());
+            if (!snapshot.exists()) {
+                throw conflictError('This expense was deleted on another device');
+            }
+
+            const remote = snapshot.data();
+            const remoteUpdatedAt = remote?.updatedAt?.toMillis?.() ?? null;
+            const changedElsewhere = remote?.updatedOnDevice !== await getDeviceId();
+            if (operation.baseUpdatedAtMs !== null && remoteUpdatedAt !== null && remoteUpdatedAt > operation.baseUpdatedAtMs && changedElsewhere) {
+                throw conflictError('This expense was changed on another device');
+            }
+
+            await withTimeout(ref.update({
+                ...withTransactionTimestamp(operation.changes),
+                updatedAt: firestore.FieldValue.serverTimestamp(),
+                updatedOnDevice: await getDeviceId()
+            }));
+            break;
+        }
+
+        case 'deleteExpense':
+            await withTimeout(firestore().collection('expenses').doc(operation.expenseId).delete());
+            // The expense is gone either way; a file left behind only costs storage
+            if (operation.attachments?.length) {
+                await deleteReceiptAttachments(operation.attachments).catch(error =>
+                    console.error('Error deleting receipt attachments:', error));
+            }
+            break;
+
+        case 'saveBudget':
+            await withTimeout(firestore().collection('budgets').doc(operation.budgetId).set({
+                ...operation.data,
+                userId: item.userId,
+                ...(operation.isNew ? { createdAt: firestore.Timestamp.fromMillis(item.createdAt) } : {}),
+                updatedAt: firestore.FieldValue.serverTimestamp()
+            }, { merge: true }));
+            break;
+
+        case 'deactivateBudget':
+            await withTimeout(firestore().collection('budgets').doc(operation.budgetId).update({
+                isActive: false,
+                updatedAt: firestore.FieldValue.serverTimestamp()
+            }));
+            break;
+
+        case 'processReceipt': {
+            // Throws when the backend could not analyze the receipt
+            const response = await extractReceipt(operation.files);
+
+            const receipts = await loadProcessedReceipts();
+            await saveProcessedReceipts([...receipts, {
+                id: item.id,
+                userId: item.userId,
+                files: operation.files,
+                response,
+                processedAt: Date.now()
+            }]);
+            break;
+        }
+    }
+};
+
+// Replay queued items for the signed-in user, oldest first
+export const processQueue = async () => {
+    if (processing) {
+        rerunRequested = true;
+        return;
+    }
+
+    const user = auth().currentUser;
+    if (!user || !(await isOnline())) return;
+
+    processing = true;
+    try {
+        const blockedRecords = new Set<string>();
+        const items = (await loadQueue()).filter(item => item.userId === user.uid);
+
+        for (const item of items) {
+            const recordKey = getRecordKey(item);
+            if (item.status === 'failed' || item.status === 'conflict' || blockedRecords.has(recordKey)) {
+                blockedRecords.add(recordKey);
+                continue;
+            }
+
+            await updateItem(item.id, { status: 'syncing' });
+            try {
+                await applyOperation(item);
+                await removeItem(item.id);
+            } catch (error: any) {
+                blockedRecords.add(recordKey);
+                const limit = getOCRLimit(error);
+
+                if (error.conflict) {
+                    await updateItem(item.id, { status: 'conflict', lastError: error.message });
+                } else if (isNetworkError(error)) {
+                    // Connection dropped; leave the rest for the next run
+                    await updateItem(item.id, { status: 'pending' });
+                    break;
+                } else if (limit) {
+                    // Rate limited or over today's quota; not the receipt's fault, so no attempt is used
+                    // up, and expense writes behind it still go through
+                    await updateItem(item.id, { status: 'pending', lastError: describeOCRLimit(limit) });
+                } else {
+                    const attempts = item.attempts + 1;
+                    console.error('Error syncing queued item:', error);
+                    await updateItem(item.id, {
+                        status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+                        attempts,
+                        lastError: error.message
+                    });
+                }
+            }
+        }
+    } finally {
+        processing = false;
+        if (rerunRequested) {
+            rerunRequested = false;
+            await processQueue();
+        }
+    }
+};
+
+// Put a failed or conflicting item back in line. For a conflicting edit this
+// applies the local change over the server version.
+export const retrySyncItem = async (id: string) => {
+    const items = await loadQueue();
+    const item = items.find(candidate => candidate.id === id);
+    if (!item) return;
+
+    const operation = item.operation.type === 'updateExpense'
+        ? { ...item.operation, baseUpdatedAtMs: null }
+        : item.operation;
+
+    await updateItem(id, { operation, status: 'pending', attempts: 0, lastError: undefined });
+    processQueue();
+};
+
+// Drop a local change, keeping whatever is on the server
+export const discardSyncItem = async (id: string) => {
+    const items = await loadQueue();
+    const item = items.find(candidate => candidate.id === id);
+    if (item?.operation.type === 'processReceipt') {
+        await deleteReceiptFiles(item.operation.files);
+    }
+    await removeItem(id);
+};
+
+// Start replaying whenever connectivity returns or the app comes back to the foreground
+export const startSyncQueue = () => {
+    const unsubscribeNetInfo = NetInfo.addEventListener(state => {
+        if (state.isConnected && state.isInternetReachable !== false) {
+            processQueue();
+        }
+    });
+    const appStateSubscription = AppState.addEventListener('change', state => {
+        if (state === 'active') {
+            processQueue();
+        }
+    });
+    const unsubscribeAuth = auth().onAuthStateChanged(user => {
+        if (user) {
+            processQueue();
+        }
+    });
+
+    return () => {
+        unsubscribeNetInfo();
+        appStateSubscription.remove();
+        unsubscribeAuth();
+    };
+};
+
+// Local view of the user's expenses: queued creates and edits applied, queued deletes hidden
+export const applyPendingExpenses = <T extends { id: string }>(
+    expenses: T[],
+    items: SyncItem[]
+): (T & { syncItem?: SyncItem })[] => {
+    let result: (T & { syncItem?: SyncItem })[] = [...expenses];
+
+    items.forEach(item => {
+        const operation = item.operation;
+        switch (operation.type) {
+            case 'createExpense':
+                if (!result.some(expense => expense.id === operation.expenseId)) {
+                    result.push({
+                        ...withTransactionTimestamp(operation.data),
+                        id: operation.expenseId,
+                        createdAt: operation.createdAtMs,
+                        syncItem: item
+                    } as unknown as T & { syncItem?: SyncItem });
+                }
+                break;
+            case 'updateExpense':
+                result = result.map(expense => expense.id === operation.expenseId
+                    ? { ...expense, ...withTransactionTimestamp(operation.changes), syncItem: item }
+                    : expense);
+                break;
+            case 'deleteExpense':
+                result = result.filter(expense => expense.id !== operation.expenseId);
+                break;
+        }
+    });
+
+    return result;
+};
+
+// Local view of the user's budgets; queued deletes mark a budget inactive
+export const applyPendingBudgets = <T extends { id: string; isActive: boolean }>(budgets: T[], items: SyncItem[]): T[] => {
+    let result = [...budgets];
+
+    items.forEach(item => {
+        const operation = item.operation;
+        if (operation.type === 'saveBudget') {
+            const existing = result.find(budget => budget.id === operation.budgetId);
+            result = existing
+                ? result.map(budget => budget.id === operation.budgetId ? { ...budget, ...operation.data } : budget)
+                : [...result, { ...operation.data, id: operation.budgetId } as unknown as T];
+        } else if (operation.type === 'deactivateBudget') {
+            result = result.map(budget => budget.id === operation.budgetId ? { ...budget, isActive: false } : budget);
+        }
+    });
+
+    return result;
+};
+
+// Copy receipt files out of the picker's cache so they last until the receipt is reviewed
+const storeReceiptFiles = async (files: ReceiptFile[]) => {
+    await FileSystem.makeDirectoryAsync(RECEIPTS_DIR, { intermediates: true });
+    const storedFiles: ReceiptFile[] = [];
+    for (const file of files) {
+        const storedFile = { ...file, uri: `${RECEIPTS_DIR}${createLocalId()}-${file.name}` };
+        await FileSystem.copyAsync({ from: file.uri, to: storedFile.uri });
+        storedFiles.push(storedFile);
+    }
+    return storedFiles;
+};
+
+// Keep the receipt on the device until it can be uploaded
+export const queueReceiptUpload = async (files: ReceiptFile[]) => {
+    const storedFiles = await storeReceiptFiles(files);
+    return enqueue({ type: 'processReceipt', files: storedFiles });
+};
+
+const deleteReceiptFiles = async (files: ReceiptFile[]) => {
+    for (const file of files) {
+        if (file.uri.startsWith(RECEIPTS_DIR)) {
+            await FileSystem.deleteAsync(file.uri, { idempotent: true });
+        }
+    }
+};
+
+const loadProcessedReceipts = async () =>
+    (await readJSON<ProcessedReceipt[]>(PROCESSED_RECEIPTS_KEY, [])).map(withReceiptFiles);
+
+const saveProcessedReceipts = async (receipts: ProcessedReceipt[]) => {
+    await writeJSON(PROCESSED_RECEIPTS_KEY, receipts);
+    receiptListeners.forEach(listener => listener(receipts));
+};
+
+export const subscribeToProcessedReceipts = (listener: (receipts: ProcessedReceipt[]) => void) => {
+    receiptListeners.add(listener);
+    loadProcessedReceipts().then(listener);
+    return () => {
+        receiptListeners.delete(listener);
+    };
+};
+
+// Add receipts processed in a batch upload to the review list
+export const addProcessedReceipts = async (entries: { files: ReceiptFile[]; response: AnalyzedReceipt }[]) => {
+    const user = auth().currentUser;
+    if (!user) throw new Error('You must be logged in');
+
+    const added: ProcessedReceipt[] = [];
+    for (const entry of entries) {
+        added.push({
+            id: createLocalId(),
+            userId: user.uid,
+            files: await storeReceiptFiles(entry.files),
+            response: entry.response,
+            processedAt: Date.now()
+        });
+    }
+
+    const receipts = await loadProcessedReceipts();
+    await saveProcessedReceipts([...receipts, ...added]);
+};
+
+// Called once the user has saved or dismissed a processed receipt
+export const removeProcessedReceipt = async (id: string) => {
+    const receipts = await loadProcessedReceipts();
+    const receipt = receipts.find(candidate => candidate.id === id);
+    if (receipt) {
+        await deleteReceiptFiles(receipt.files);
+    }
+    await saveProcessedReceipts(receipts.filter(candidate => candidate.id !== id));
+};